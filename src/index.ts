@@ -1,7 +1,9 @@
 export * from './MegaBuilder';
 export * from './sql/Condition';
 export * from './sql/Delete';
+export * from './sql/Dialect';
 export * from './sql/Insert';
 export * from './sql/Query';
 export * from './sql/Select';
 export * from './sql/Update';
+export * from './sql/Window';
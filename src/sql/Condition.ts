@@ -2,16 +2,22 @@ import { QueryError } from '@megaorm/errors';
 import { MegaPoolConnection } from '@megaorm/pool';
 import { isMySQL, isPoolCon, isPostgreSQL } from '@megaorm/utils';
 import {
+  isArr,
+  isBool,
   isChildOf,
+  isDate,
+  isDefined,
   isEmptyArr,
-  isEmptyStr,
   isFullStr,
   isFunc,
   isInt,
   isNum,
+  isObj,
   isStr,
+  isUndefined,
 } from '@megaorm/test';
 
+import { Expr, quote, serialize } from './Dialect';
 import { Select } from './Select';
 import { Query } from './Query';
 
@@ -46,6 +52,25 @@ export function ref(column: string): any {
   return new Ref(column);
 }
 
+/**
+ * Represents a value that can be bound to a condition placeholder.
+ */
+export type Value = string | number | boolean | bigint | Date | Buffer;
+
+/**
+ * Checks if the given value can be bound to a condition placeholder.
+ *
+ * @param value The value to check.
+ * @returns `true` for strings (empty strings included), numbers, booleans, bigints, valid dates and buffers.
+ */
+function isValue(value: unknown): boolean {
+  if (isDate(value)) return !isNaN((value as Date).getTime());
+  if (Buffer.isBuffer(value)) return true;
+  return (
+    isStr(value) || isNum(value) || isBool(value) || typeof value === 'bigint'
+  );
+}
+
 /**
  * Returns a SQL expression for extracting the date part from the given column.
  *
@@ -304,7 +329,7 @@ function invalidOperator(operator: any): boolean {
  * @returns The `Condition` instance for chaining further query conditions.
  * @throws `QueryError` if the column name is not in snake_case format.
  */
-export type Col = (name: string) => Condition;
+export type Col = (name: string | Expr) => Condition;
 
 /**
  * Alias for the `Condition` class.
@@ -314,6 +339,267 @@ export type Col = (name: string) => Condition;
  */
 export type Con = Condition;
 
+/**
+ * The operators available in object-style filters, each operator is mapped to a condition method.
+ *
+ * @property `eq` Maps to `equal()`, and `ne` to `not().equal()`.
+ * @property `gt`, `gte`, `lt`, `lte` Map to `greaterThan()`, `greaterThanOrEqual()`, `lessThan()` and `lessThanOrEqual()`.
+ * @property `in` Maps to `in()`, and `notIn` to `not().in()`.
+ * @property `like` Maps to `like()`.
+ * @property `between` Maps to `between()`, with a `[start, end]` pair.
+ * @property `null` Maps to `isNull()` if `true`, and `not().isNull()` if `false`.
+ */
+export interface FilterOperators {
+  eq?: Value | null;
+  ne?: Value | null;
+  gt?: Value;
+  gte?: Value;
+  lt?: Value;
+  lte?: Value;
+  in?: Array<Value>;
+  notIn?: Array<Value>;
+  like?: string;
+  between?: [Value, Value];
+  null?: boolean;
+}
+
+/**
+ * Object-style filters, mapping each column to a value (`=`), an array of values (`IN`),
+ * `null` (`IS NULL`), or an object of operators (e.g., `{ gte: 18, lt: 65 }`).
+ */
+export type Filters = {
+  [column: string]: Value | null | Array<Value> | FilterOperators;
+};
+
+/**
+ * Maps each filter operator to the condition methods it compiles to.
+ */
+const OPERATORS: Record<
+  keyof FilterOperators,
+  (condition: Condition, value: any) => Condition
+> = {
+  eq: (condition, value) => condition.equal(value),
+  ne: (condition, value) => condition.not().equal(value),
+  gt: (condition, value) => condition.greaterThan(value),
+  gte: (condition, value) => condition.greaterThanOrEqual(value),
+  lt: (condition, value) => condition.lessThan(value),
+  lte: (condition, value) => condition.lessThanOrEqual(value),
+  in: (condition, values) => {
+    if (!isArr(values)) {
+      throw new QueryError(`Invalid IN filter: ${String(values)}`);
+    }
+
+    return condition.in(...values);
+  },
+  notIn: (condition, values) => {
+    if (!isArr(values)) {
+      throw new QueryError(`Invalid NOT IN filter: ${String(values)}`);
+    }
+
+    return condition.not().in(...values);
+  },
+  like: (condition, value) => condition.like(value),
+  between: (condition, range) => {
+    if (!isArr(range) || range.length !== 2) {
+      throw new QueryError(`Invalid BETWEEN filter: ${String(range)}`);
+    }
+
+    return condition.between(range[0], range[1]);
+  },
+  null: (condition, value) => {
+    if (!isBool(value)) {
+      throw new QueryError(`Invalid NULL filter: ${String(value)}`);
+    }
+
+    return value ? condition.isNull() : condition.not().isNull();
+  },
+};
+
+/**
+ * The extract functions available to compare a part of a date or time column.
+ */
+type Extract =
+  'date' | 'time' | 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second';
+
+/**
+ * Maps each extract function to its SQL expression builder.
+ */
+const EXTRACTORS: Record<
+  Extract,
+  (col: string, con: MegaPoolConnection) => string
+> = {
+  date: (col) => exDate(col),
+  time: exTime,
+  year: exYear,
+  month: exMonth,
+  day: exDay,
+  hour: exHour,
+  minute: exMinute,
+  second: exSecond,
+};
+
+/**
+ * A comparison between a column and its operands (e.g., `age > ?`, `id IN (?, ?)`).
+ */
+export interface ComparisonNode {
+  type: 'comparison';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The column to compare. */
+  column: string | Expr;
+
+  /** The comparison operator (e.g., `=`, `<`, `BETWEEN`, `IN`, `LIKE`, `IS NULL`). */
+  operator: string;
+
+  /** The operands to compare against, each one is either a value or a column reference. */
+  operands: Array<unknown>;
+
+  /** The extract function applied to the column (e.g., `year` for `YEAR(column)`). */
+  extract?: Extract;
+}
+
+/**
+ * A logical operator joining two conditions (`AND`, `OR`).
+ */
+export interface LogicalNode {
+  type: 'logical';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The logical operator. */
+  operator: 'AND' | 'OR';
+}
+
+/**
+ * A group of conditions wrapped in parentheses.
+ */
+export interface GroupNode {
+  type: 'group';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The conditions and logical operators inside the group. */
+  nodes: Array<ConditionNode>;
+}
+
+/**
+ * A negated condition (`NOT ...`).
+ */
+export interface NotNode {
+  type: 'not';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The negated condition. */
+  node: ConditionNode;
+}
+
+/**
+ * A comparison against a subquery (e.g., `id IN (SELECT ...)`, `EXISTS (SELECT ...)`).
+ */
+export interface SubqueryNode {
+  type: 'subquery';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The column to compare, `undefined` for `EXISTS`. */
+  column: string | Expr | undefined;
+
+  /** The subquery operator (e.g., `IN`, `EXISTS`, `= ANY`, `> ALL`). */
+  operator: string;
+
+  /** A function that receives a `Select` instance to build the subquery, invoked when the condition is compiled. */
+  subquery: (select: Select) => void;
+}
+
+/**
+ * A raw SQL condition.
+ */
+export interface RawNode {
+  type: 'raw';
+
+  /** The position of the node in the condition (starting from 1). */
+  position: number;
+
+  /** The raw SQL condition. */
+  sql: string;
+
+  /** The values of the raw condition placeholders. */
+  values: Array<Value>;
+}
+
+/**
+ * Represents any node of the condition tree.
+ */
+export type ConditionNode =
+  ComparisonNode | LogicalNode | GroupNode | NotNode | SubqueryNode | RawNode;
+
+/**
+ * Validates the structure of the given group and its nested groups.
+ *
+ * Conditions and logical operators must alternate, starting and ending with a condition.
+ *
+ * @param group The group to validate.
+ * @throws `QueryError` if the group is empty or the operators are misplaced.
+ */
+function validate(group: GroupNode): void {
+  const root = group.position === 0;
+  const nodes = group.nodes;
+
+  if (isEmptyArr(nodes)) {
+    throw new QueryError(
+      `Invalid syntax: Empty group at position ${group.position}.`
+    );
+  }
+
+  nodes.forEach((node, index) => {
+    const prev = nodes[index - 1];
+
+    if (node.type === 'logical') {
+      const operator = `${node.operator} at position ${node.position}`;
+
+      if (!prev) {
+        throw new QueryError(
+          root
+            ? `Invalid syntax: ${operator} cannot start a condition.`
+            : `Invalid syntax: ${operator} follows an opening group.`
+        );
+      }
+
+      if (prev.type === 'logical') {
+        throw new QueryError(
+          `Invalid syntax: ${operator} follows ${prev.operator} at position ${prev.position}.`
+        );
+      }
+
+      if (index === nodes.length - 1) {
+        throw new QueryError(
+          root
+            ? `Invalid syntax: ${operator} cannot end a condition.`
+            : `Invalid syntax: ${operator} precedes a closing group.`
+        );
+      }
+
+      return;
+    }
+
+    if (prev && prev.type !== 'logical') {
+      throw new QueryError(
+        `Invalid syntax: Missing AND/OR before position ${node.position}.`
+      );
+    }
+
+    if (node.type === 'group') validate(node);
+    if (node.type === 'not' && node.node.type === 'group') validate(node.node);
+  });
+}
+
 /**
  * The `Condition` class is responsible for building SQL conditions
  * with syntax validation.
@@ -323,123 +609,501 @@ export type Con = Condition;
  */
 export class Condition {
   /**
-   * Stack of condition components that make up the final query condition string.
+   * The root group of the condition tree.
    */
-  private stack: string[] = new Array();
+  private root: GroupNode = { type: 'group', position: 0, nodes: new Array() };
 
   /**
-   * Flag to track negation of the condition, toggled if `NOT` is added.
+   * Stack of the currently opened groups, new nodes are added to the last one.
    */
-  private negate: boolean = false;
+  private groups: Array<GroupNode> = [this.root];
 
   /**
-   * Counters for opened and closed parentheses, ensuring balanced syntax.
+   * The position of the last node added to the condition (starting from 1).
    */
-  private opened: number = 0;
+  private position: number = 0;
 
   /**
-   * The associated query instance
+   * Flag to track negation of the condition, toggled if `NOT` is added.
+   */
+  private negate: boolean = false;
+
+  /**
+   * The associated query instance, `undefined` for standalone conditions.
    */
   private query: any;
 
   /**
    * Represents the main column involved in the condition.
    */
-  private column: string;
+  private column: string | Expr;
 
   /**
    * Constructs a `Condition` instance for the given query
    *
-   * @param query The query instance associated with this condition.
+   * @param query The query instance associated with this condition, omit it to create a standalone condition.
    *
    * @throws `QueryError` if the provided query is invalid.
+   * @note Standalone conditions are compiled with the connection of the query they are used in.
    */
-  constructor(query: Query<unknown>) {
-    if (!isChildOf(query, Query)) {
+  constructor(query?: Query<unknown>) {
+    if (isDefined(query) && !isChildOf(query, Query)) {
       throw new QueryError(`Invalid query instance: ${String(query)}`);
     }
 
     this.query = query;
   }
 
+  /**
+   * Returns the condition tree, useful to inspect the condition structure.
+   *
+   * @returns The root group of the condition tree.
+   */
+  public tree(): GroupNode {
+    return this.root;
+  }
+
+  /**
+   * Creates a deep copy of the condition, chaining on the copy does not affect the original.
+   *
+   * @param query The query instance associated with the copy, omit it to create a standalone condition.
+   * @returns The copied condition, with the same opened groups, position and pending negation.
+   * @throws `QueryError` if the provided query is invalid.
+   */
+  public clone(query?: Query<unknown>): Condition {
+    const condition = new Condition(query);
+    const groups = new Map<GroupNode, GroupNode>();
+
+    const copy = (node: ConditionNode): ConditionNode => {
+      switch (node.type) {
+        case 'group': {
+          const group = { ...node, nodes: node.nodes.map(copy) };
+          groups.set(node, group);
+          return group;
+        }
+        case 'not':
+          return { ...node, node: copy(node.node) };
+        case 'comparison':
+          return { ...node, operands: [...node.operands] };
+        case 'raw':
+          return { ...node, values: [...node.values] };
+        default:
+          return { ...node };
+      }
+    };
+
+    condition.root = copy(this.root) as GroupNode;
+    condition.groups = this.groups.map((group) => groups.get(group));
+    condition.position = this.position;
+    condition.negate = this.negate;
+    condition.column = this.column;
+
+    return condition;
+  }
+
+  /**
+   * Compiles the condition to its SQL string and the values bound to its placeholders.
+   *
+   * @param connection The connection to compile for, defaults to the connection of the associated query.
+   * @throws `QueryError` if there are syntax issues, the connection is invalid, or is missing for a standalone condition.
+   * @returns An object with the condition `sql` and its `values` in placeholders order.
+   * @note Subquery callbacks are called each time the condition is compiled, as subqueries are built for the connection.
+   */
+  public compile(connection?: MegaPoolConnection): {
+    sql: string;
+    values: Array<unknown>;
+  } {
+    if (isUndefined(connection)) {
+      if (isUndefined(this.query)) {
+        throw new QueryError(
+          'Standalone conditions must be compiled with a connection or used in a query builder'
+        );
+      }
+
+      connection = this.query.connection;
+    }
+
+    if (!isPoolCon(connection)) {
+      throw new QueryError(`Invalid connection: ${String(connection)}`);
+    }
+
+    this.check();
+
+    const values = new Array();
+    const sql = this.root.nodes
+      .map((node) => this.render(node, connection, values))
+      .join('');
+
+    return { sql, values };
+  }
+
   /**
    * Builds and returns the final condition string for a SQL query.
    *
+   * @param connection The connection to build for, defaults to the connection of the associated query.
    * @throws `QueryError` if there are syntax issues
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public build(): string {
-    const condition = this.stack.join('').trim();
+  public build(connection?: MegaPoolConnection): string {
+    return this.compile(connection).sql;
+  }
 
-    if (this.opened !== 0) {
+  /**
+   * Returns the values bound to the condition placeholders, in the order they appear.
+   *
+   * @param connection The connection to compile subqueries for, defaults to the connection of the associated query.
+   * @throws `QueryError` if there are syntax issues
+   * @returns An array of values.
+   * @note A connection is only required if the condition has subqueries.
+   * @note Values are serialized for the connection driver if a connection is available.
+   */
+  public values(connection?: MegaPoolConnection): Array<unknown> {
+    const subquery = (nodes: Array<ConditionNode>): boolean =>
+      nodes.some((node) => {
+        if (node.type === 'subquery') return true;
+        if (node.type === 'group') return subquery(node.nodes);
+        if (node.type === 'not') return subquery([node.node]);
+        return false;
+      });
+
+    if (isDefined(connection) || isDefined(this.query)) {
+      return this.compile(connection).values;
+    }
+
+    if (subquery(this.root.nodes)) return this.compile(connection).values;
+
+    this.check();
+
+    const values = new Array();
+    const collect = (node: ConditionNode): void => {
+      if (node.type === 'raw') values.push(...node.values);
+      if (node.type === 'not') collect(node.node);
+      if (node.type === 'group') node.nodes.forEach(collect);
+      if (node.type === 'comparison') {
+        values.push(...node.operands.filter((o) => !(o instanceof Ref)));
+      }
+    };
+
+    this.root.nodes.forEach(collect);
+    return values;
+  }
+
+  /**
+   * Ensures the condition is complete and its syntax is valid.
+   *
+   * @throws `QueryError` if there are syntax issues.
+   */
+  private check(): void {
+    if (this.groups.length > 1) {
       throw new QueryError(`Syntax error: Unmatched parentheses.`);
     }
 
-    if (/\(\s*AND|\(\s*OR/.test(condition)) {
+    if (this.negate) {
       throw new QueryError(
-        'Invalid syntax: AND/OR cannot directly follow an opening parenthesis.'
+        'Invalid syntax: NOT must be followed by a condition.'
       );
     }
 
-    if (/AND\s*\)|OR\s*\)/.test(condition)) {
-      throw new QueryError(
-        'Invalid syntax: AND/OR cannot directly precede a closing parenthesis.'
-      );
+    if (isEmptyArr(this.root.nodes)) {
+      throw new QueryError('Invalid syntax: Condition cannot be empty.');
     }
 
-    if (/AND\s*AND|OR\s*OR/.test(condition)) {
-      throw new QueryError(
-        'Invalid syntax: Consecutive AND/OR operators found.'
-      );
+    validate(this.root);
+  }
+
+  /**
+   * Renders the given node to its SQL representation.
+   *
+   * @param node The node to render.
+   * @param con The connection to render for.
+   * @param values The array collecting the values bound to the rendered placeholders.
+   * @returns The SQL string of the node.
+   */
+  private render(
+    node: ConditionNode,
+    con: MegaPoolConnection,
+    values: Array<unknown>
+  ): string {
+    if (node.type === 'logical') return ` ${node.operator} `;
+
+    if (node.type === 'raw') {
+      values.push(...node.values.map((value) => serialize(value, con)));
+      return node.sql;
     }
 
-    if (/\(\s*\)/.test(condition)) {
-      throw new QueryError('Invalid syntax: Empty parentheses found.');
+    if (node.type === 'not') {
+      const negated = node.node;
+
+      if (negated.type === 'comparison' && negated.operator === 'IS NULL') {
+        return this.render(negated, con, values).replace(
+          /IS NULL$/,
+          'IS NOT NULL'
+        );
+      }
+
+      return `NOT ${this.render(negated, con, values)}`;
     }
 
-    if (condition.endsWith('AND') || condition.endsWith('OR')) {
-      throw new QueryError(
-        'Invalid syntax: Condition cannot end with an operator.'
-      );
+    if (node.type === 'group') {
+      return `(${node.nodes
+        .map((node) => this.render(node, con, values))
+        .join('')})`;
     }
 
-    if (condition.startsWith('AND') || condition.startsWith('OR')) {
-      throw new QueryError(
-        'Invalid syntax: Condition cannot start with an operator.'
-      );
+    if (node.type === 'subquery') {
+      const select = new Select(con);
+
+      node.subquery(select); // build the query
+
+      const query = select.compile(true);
+      values.push(...query.values);
+
+      if (node.operator === 'EXISTS') return `EXISTS (${query.sql})`;
+      return `${quote(node.column, con)} ${node.operator} (${query.sql})`;
     }
 
-    if (isEmptyStr(condition)) {
-      throw new QueryError('Invalid syntax: Condition cannot be empty.');
+    const column = node.extract
+      ? EXTRACTORS[node.extract](quote(node.column, con), con)
+      : quote(node.column, con);
+
+    const operands = node.operands.map((operand) => {
+      if (operand instanceof Ref) return quote(operand.column, con);
+
+      values.push(serialize(operand, con));
+      return '?';
+    });
+
+    if (node.operator === 'IS NULL') return `${column} IS NULL`;
+    if (node.operator === 'IN') return `${column} IN (${operands.join(', ')})`;
+
+    if (node.operator === 'BETWEEN') {
+      return `${column} BETWEEN ${operands[0]} AND ${operands[1]}`;
     }
 
-    return condition;
+    return `${column} ${node.operator} ${operands[0]}`;
   }
 
   /**
-   * Adds a raw SQL condition string to the condition stack.
+   * Adds the given node to the currently opened group.
+   * Negatable nodes are wrapped in a `NOT` node if the condition is negated.
+   *
+   * @param node The node to add.
+   * @param negatable Whether the node can be negated (comparisons and subqueries by default).
+   * @returns The `Condition` instance for chaining further query conditions.
+   */
+  private add(
+    node: ConditionNode,
+    negatable: boolean = node.type === 'comparison' || node.type === 'subquery'
+  ): this {
+    const group = this.groups[this.groups.length - 1];
+
+    if (this.negate && negatable) {
+      group.nodes.push({ type: 'not', position: node.position, node });
+      this.negate = false;
+      return this;
+    }
+
+    group.nodes.push(node);
+    return this;
+  }
+
+  /**
+   * Adds a comparison between the current column and the given operands.
+   *
+   * @param operator The comparison operator (e.g., `=`, `IN`, `BETWEEN`).
+   * @param operands The values or column references to compare against.
+   * @param extract The extract function to apply to the column (e.g., `year`).
+   * @returns The `Condition` instance for chaining further query conditions.
+   */
+  private compare(
+    operator: string,
+    operands: Array<unknown>,
+    extract?: Extract
+  ): this {
+    return this.add({
+      type: 'comparison',
+      position: ++this.position,
+      column: this.column,
+      operator,
+      operands,
+      extract,
+    });
+  }
+
+  /**
+   * Adds a comparison between the current column and the given subquery.
+   *
+   * @param operator The subquery operator (e.g., `IN`, `EXISTS`, `= ANY`).
+   * @param subquery A function that receives a `Select` instance to build the subquery.
+   * @returns The `Condition` instance for chaining further query conditions.
+   */
+  private subquery(operator: string, subquery: (select: Select) => void): this {
+    return this.add({
+      type: 'subquery',
+      position: ++this.position,
+      column: operator === 'EXISTS' ? undefined : this.column,
+      operator,
+      subquery,
+    });
+  }
+
+  /**
+   * Adds a raw SQL condition string to the condition.
    *
    * @param condition The raw SQL condition as a string.
    * @param values Optional values to replace placeholders within the condition.
    * @throws `QueryError` if the condition is not a string, or if provided values are not valid.
+   * @note With PostgreSQL, use `\\?` for a literal `?` (e.g. the JSONB `?` operator), so it's not treated as a placeholder.
    */
-  public raw(condition: string, ...values: Array<string | number>): this {
+  public raw(condition: string, ...values: Array<Value>): this {
     if (!isFullStr(condition)) {
       throw new QueryError(`Invalid condition: ${String(condition)}`);
     }
 
     values.forEach((value) => {
-      if (!(isFullStr(value) || isNum(value))) {
+      if (!isValue(value)) {
         throw new QueryError(`Invalid condition value: ${String(value)}`);
       }
+    });
+
+    return this.add({
+      type: 'raw',
+      position: ++this.position,
+      sql: condition,
+      values,
+    });
+  }
+
+  /**
+   * Adds the given object-style filters to the condition, joined with `AND`.
+   *
+   * Each column is mapped to the condition method matching its filter:
+   * - A value is compared with `equal()`.
+   * - An array of values is compared with `in()`.
+   * - `null` is compared with `isNull()`.
+   * - A plain object of operators (e.g., `{ gte: 18, lt: 65 }`) is compared with each operator, joined with `AND`.
+   * - Other objects (e.g., a `Date` or a `Buffer`) are compared with `equal()`.
+   *
+   * @param filters The filters to add (e.g., `{ status: 'active', role: ['admin', 'editor'] }`).
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the filters, an operator or a value is invalid.
+   * @note Values are validated by the condition methods they compile to.
+   */
+  public filter(filters: Filters): this {
+    if (!isObj(filters) || Object.keys(filters).length === 0) {
+      throw new QueryError(`Invalid filters: ${String(filters)}`);
+    }
+
+    Object.keys(filters).forEach((column, index) => {
+      if (index > 0) this.and();
+
+      const filter = filters[column];
+
+      if (filter === null) return this.col(column).isNull();
+      if (isArr(filter)) return this.col(column).in(...(filter as Array<any>));
+      // Only plain objects are operator maps, other objects (e.g., dates or buffers) are values
+      const prototype = isObj(filter)
+        ? Object.getPrototypeOf(filter)
+        : undefined;
+
+      if (!(prototype === Object.prototype || prototype === null)) {
+        return this.col(column).equal(filter as Value);
+      }
+
+      const operators = Object.keys(filter);
+
+      if (operators.length === 0) {
+        throw new QueryError(`Invalid filter for column: ${column}`);
+      }
+
+      operators.forEach((operator, index) => {
+        if (!Object.prototype.hasOwnProperty.call(OPERATORS, operator)) {
+          throw new QueryError(`Invalid filter operator: ${operator}`);
+        }
 
-      this.query.values.push(value);
+        if (index > 0) this.and();
+        OPERATORS[operator](this.col(column), filter[operator]);
+      });
     });
 
-    this.stack.push(condition);
     return this;
   }
 
+  /**
+   * Adds the given standalone condition to the condition.
+   *
+   * @param condition The condition to include, its values are bound where it's included.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the condition is invalid or has syntax issues.
+   * @note Conditions are wrapped in parentheses to keep their precedence, unless they are a single comparison
+   * or group, raw conditions are always wrapped as they may contain their own `OR` operators.
+   */
+  public include(condition: Condition): this {
+    if (!(condition instanceof Condition) || condition === this) {
+      throw new QueryError(`Invalid condition: ${String(condition)}`);
+    }
+
+    condition.check();
+
+    const nodes = condition.root.nodes;
+
+    if (nodes.length === 1 && nodes[0].type !== 'raw') {
+      return this.add({ ...nodes[0], position: ++this.position }, true);
+    }
+
+    return this.add(
+      {
+        type: 'group',
+        position: ++this.position,
+        nodes: [...nodes],
+      },
+      true
+    );
+  }
+
+  /**
+   * Adds the given condition, preceded by the given logical operator if the current group already has a condition.
+   *
+   * @param operator The logical operator (`AND` or `OR`).
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the operator or the condition is invalid, or the condition has syntax issues.
+   * @note The condition is built separately and included, so it's wrapped in parentheses like in `include()`.
+   */
+  public append(
+    operator: 'AND' | 'OR',
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (operator !== 'AND' && operator !== 'OR') {
+      throw new QueryError(`Invalid logical operator: ${String(operator)}`);
+    }
+
+    if (!(isFunc(condition) || isObj(condition)) || condition === this) {
+      throw new QueryError(`Invalid condition: ${String(condition)}`);
+    }
+
+    let standalone: Condition;
+
+    if (condition instanceof Condition) standalone = condition;
+    else if (isFunc(condition)) {
+      const callback = condition as (col: Col, con: Con) => void;
+
+      standalone = new Condition();
+      callback(standalone.col.bind(standalone), standalone);
+    } else standalone = new Condition().filter(condition as Filters);
+
+    standalone.check();
+
+    const group = this.groups[this.groups.length - 1];
+
+    if (group.nodes.length > 0) {
+      if (operator === 'AND') this.and();
+      else this.or();
+    }
+
+    return this.include(standalone);
+  }
+
   /**
    * Negates the current condition by applying a `NOT` operator.
    *
@@ -457,8 +1121,14 @@ export class Condition {
    *
    */
   public open(): this {
-    this.stack.push('(');
-    this.opened++;
+    const group: GroupNode = {
+      type: 'group',
+      position: ++this.position,
+      nodes: new Array(),
+    };
+
+    this.add(group);
+    this.groups.push(group);
     return this;
   }
 
@@ -466,10 +1136,15 @@ export class Condition {
    * Adds a closing parenthesis `)` to the conditions.
    *
    * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if no open parenthesis exists to close.
    */
   public close(): this {
-    this.stack.push(')');
-    this.opened--;
+    if (this.groups.length === 1) {
+      throw new QueryError(`Syntax error: Unmatched parentheses.`);
+    }
+
+    this.groups.pop();
+    this.position++;
     return this;
   }
 
@@ -479,7 +1154,104 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public paren(): this {
-    return this.opened === 0 ? this.open() : this.close();
+    return this.groups.length === 1 ? this.open() : this.close();
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   * @note Calling `not()` before `group()` negates the whole group (e.g., `NOT (a = ? OR b = ?)`).
+   */
+  public group(callback: (col: Col, con: Con) => void): this {
+    return this.nest(callback);
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses, preceded by `AND` if the current group already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public andGroup(callback: (col: Col, con: Con) => void): this {
+    return this.nest(callback, 'AND');
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses, preceded by `OR` if the current group already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public orGroup(callback: (col: Col, con: Con) => void): this {
+    return this.nest(callback, 'OR');
+  }
+
+  /**
+   * Adds a negated group of conditions wrapped in parentheses (e.g., `NOT (a = ? OR b = ?)`).
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public notGroup(callback: (col: Col, con: Con) => void): this {
+    return this.not().nest(callback);
+  }
+
+  /**
+   * Adds a group of conditions defined by the given callback, the group is closed once the callback returns.
+   * The group is negated if `not()` was called before.
+   *
+   * @param callback A function to define the grouped conditions.
+   * @param operator The logical operator to add before the group, if the current group already has a condition.
+   * @returns The `Condition` instance for chaining further query conditions.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  private nest(
+    callback: (col: Col, con: Con) => void,
+    operator?: 'AND' | 'OR'
+  ): this {
+    if (!isFunc(callback)) {
+      throw new QueryError(`Invalid group callback: ${String(callback)}`);
+    }
+
+    const parent = this.groups[this.groups.length - 1];
+
+    if (operator === 'AND' && parent.nodes.length > 0) this.and();
+    if (operator === 'OR' && parent.nodes.length > 0) this.or();
+
+    const group: GroupNode = {
+      type: 'group',
+      position: ++this.position,
+      nodes: new Array(),
+    };
+
+    if (this.negate) {
+      parent.nodes.push({ type: 'not', position: group.position, node: group });
+      this.negate = false;
+    } else parent.nodes.push(group);
+
+    this.groups.push(group);
+
+    callback(this.col.bind(this), this);
+
+    if (this.groups[this.groups.length - 1] !== group) {
+      throw new QueryError(`Syntax error: Unmatched parentheses.`);
+    }
+
+    if (isEmptyArr(group.nodes)) {
+      throw new QueryError(
+        `Invalid syntax: Empty group at position ${group.position}.`
+      );
+    }
+
+    this.groups.pop();
+    this.position++;
+    return this;
   }
 
   /**
@@ -488,8 +1260,11 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public and(): this {
-    this.stack.push(' AND ');
-    return this;
+    return this.add({
+      type: 'logical',
+      position: ++this.position,
+      operator: 'AND',
+    });
   }
 
   /**
@@ -498,20 +1273,24 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public or(): this {
-    this.stack.push(' OR ');
-    return this;
+    return this.add({
+      type: 'logical',
+      position: ++this.position,
+      operator: 'OR',
+    });
   }
 
   /**
    * Sets the column name for the condition.
    * The column name must follow snake_case conventions.
    *
-   * @param name The column name to be used in the condition.
+   * @param name The column name to be used in the condition, or an `Expr` to use as is.
    * @returns The `Condition` instance for chaining further query conditions.
    * @throws `QueryError` if the column name is not in snake_case format.
+   * @note The column name is quoted based on your driver.
    */
-  public col(name: string): this {
-    if (!isFullStr(name)) {
+  public col(name: string | Expr): this {
+    if (!(name instanceof Expr || isFullStr(name))) {
       throw new QueryError(`Invalid column name: ${String(name)}`);
     }
 
@@ -535,7 +1314,7 @@ export class Condition {
    * - For **SQLite**, it uses the `DATE()` function.
    */
   public inDate(date: string | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -545,14 +1324,7 @@ export class Condition {
       throw new QueryError(`Invalid date: ${String(date)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? date.column : '?';
-
-    this.stack.push(`${not}${exDate(this.column)} = ${placeholder}`);
-    if (!isRef) this.query.values.push(date);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [date], 'date');
   }
 
   /**
@@ -571,7 +1343,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME()` function with the format (`'%H:%M:%S'`).
    */
   public inTime(time: string | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -581,16 +1353,7 @@ export class Condition {
       throw new QueryError(`Invalid time: ${String(time)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? time.column : '?';
-
-    this.stack.push(
-      `${not}${exTime(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(time);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [time], 'time');
   }
 
   /**
@@ -609,7 +1372,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%Y', column)` function.
    */
   public inYear(year: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
     const isRef = year instanceof Ref;
@@ -618,17 +1381,7 @@ export class Condition {
       throw new QueryError(`Invalid year: ${String(year)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? year.column : '?';
-
-    this.stack.push(
-      `${not}${exYear(this.column, this.query.connection)} = ${placeholder}`
-    );
-
-    if (!isRef) this.query.values.push(year);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [year], 'year');
   }
 
   /**
@@ -647,7 +1400,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%m', column)` function.
    */
   public inMonth(month: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -657,15 +1410,7 @@ export class Condition {
       throw new QueryError(`Invalid month: ${String(month)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? month.column : '?';
-    this.stack.push(
-      `${not}${exMonth(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(month);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [month], 'month');
   }
 
   /**
@@ -684,7 +1429,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%d', column)` function.
    */
   public inDay(day: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -694,16 +1439,7 @@ export class Condition {
       throw new QueryError(`Invalid day: ${String(day)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? day.column : '?';
-
-    this.stack.push(
-      `${not}${exDay(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(day);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [day], 'day');
   }
 
   /**
@@ -722,7 +1458,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%H', column)` function.
    */
   public inHour(hour: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -732,16 +1468,7 @@ export class Condition {
       throw new QueryError(`Invalid hour: ${String(hour)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? hour.column : '?';
-
-    this.stack.push(
-      `${not}${exHour(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(hour);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [hour], 'hour');
   }
 
   /**
@@ -760,7 +1487,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%M', column)` function.
    */
   public inMinute(minute: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -770,16 +1497,7 @@ export class Condition {
       throw new QueryError(`Invalid minute: ${String(minute)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? minute.column : '?';
-
-    this.stack.push(
-      `${not}${exMinute(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(minute);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [minute], 'minute');
   }
 
   /**
@@ -798,7 +1516,7 @@ export class Condition {
    * - For **SQLite**, it uses the `STRFTIME('%S', column)` function.
    */
   public inSecond(second: number | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -808,209 +1526,154 @@ export class Condition {
       throw new QueryError(`Invalid second: ${String(second)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? second.column : '?';
-
-    this.stack.push(
-      `${not}${exSecond(this.column, this.query.connection)} = ${placeholder}`
-    );
-    if (!isRef) this.query.values.push(second);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [second], 'second');
   }
 
   /**
    * Compares the column with a specified value for equality.
    *
-   * @param value The value to compare against the column. It can be either a `string` or a `number`.
+   * @param value The value to compare against the column. It can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` If the value or column is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
+   * @note `equal(null)` compiles to `IS NULL`, and `not().equal(null)` to `IS NOT NULL`.
    */
-  public equal(value: string | number | Ref): this {
-    if (!isFullStr(this.column)) {
+  public equal(value: Value | Ref | null): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
+    if (value === null) return this.compare('IS NULL', []);
+
     const isRef = value instanceof Ref;
 
-    if (!(isRef || isFullStr(value) || isNum(value))) {
+    if (!(isRef || isValue(value))) {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-
-    this.stack.push(`${not}${this.column} = ${placeholder}`);
-    if (!isRef) this.query.values.push(value);
-
-    this.negate = false;
-    return this;
+    return this.compare('=', [value]);
   }
 
   /**
    * Compares the column with a specified value to check if it's less than the value.
    *
-   * @param value The value to compare against the column. It can be either a `string` or a `number`.
+   * @param value The value to compare against the column. It can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` if the value or column is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
    *
    */
-  public lessThan(value: string | number | Ref): this {
-    if (!isFullStr(this.column)) {
+  public lessThan(value: Value | Ref): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
     const isRef = value instanceof Ref;
 
-    if (!(isRef || isFullStr(value) || isNum(value))) {
+    if (!(isRef || isValue(value))) {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-
-    this.stack.push(`${not}${this.column} < ${placeholder}`);
-    if (!isRef) this.query.values.push(value);
-
-    this.negate = false;
-    return this;
+    return this.compare('<', [value]);
   }
 
   /**
    * Compares the column with a specified value to check if it's less than or equal to the value.
    *
-   * @param value The value to compare against the column. It can be either a `string` or a `number`.
+   * @param value The value to compare against the column. It can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` if the value or column is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public lessThanOrEqual(value: string | number | Ref): this {
-    if (!isFullStr(this.column)) {
+  public lessThanOrEqual(value: Value | Ref): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
     const isRef = value instanceof Ref;
 
-    if (!(isRef || isFullStr(value) || isNum(value))) {
+    if (!(isRef || isValue(value))) {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-
-    this.stack.push(`${not}${this.column} <= ${placeholder}`);
-    if (!isRef) this.query.values.push(value);
-
-    this.negate = false;
-    return this;
+    return this.compare('<=', [value]);
   }
 
   /**
    * Compares the column with a specified value to check if it's greater than the value.
    *
-   * @param value The value to compare against the column. It can be either a `string` or a `number`.
+   * @param value The value to compare against the column. It can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` If the value or column is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public greaterThan(value: string | number | Ref): this {
-    if (!isFullStr(this.column)) {
+  public greaterThan(value: Value | Ref): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
     const isRef = value instanceof Ref;
 
-    if (!(isRef || isFullStr(value) || isNum(value))) {
+    if (!(isRef || isValue(value))) {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-
-    this.stack.push(`${not}${this.column} > ${placeholder}`);
-    if (!isRef) this.query.values.push(value);
-
-    this.negate = false;
-    return this;
+    return this.compare('>', [value]);
   }
 
   /**
    * Compares the column with a specified value to check if it's greater than or equal to the value.
    *
-   * @param value The value to compare against the column. It can be either a `string` or a `number`.
+   * @param value The value to compare against the column. It can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` if the value or column is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public greaterThanOrEqual(value: string | number | Ref | Ref): this {
-    if (!isFullStr(this.column)) {
+  public greaterThanOrEqual(value: Value | Ref): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
     const isRef = value instanceof Ref;
 
-    if (!(isRef || isFullStr(value) || isNum(value))) {
+    if (!(isRef || isValue(value))) {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-
-    this.stack.push(`${not}${this.column} >= ${placeholder}`);
-    if (!isRef) this.query.values.push(value);
-
-    this.negate = false;
-    return this;
+    return this.compare('>=', [value]);
   }
 
   /**
    * Compares the column with a specified range to check if it's between the `start` and `end` values.
    *
-   * @param start The starting value of the range. Can be either a `string` or a `number`.
-   * @param end The ending value of the range. Can be either a `string` or a `number`.
+   * @param start The starting value of the range. Can be a `string`, `number`, `boolean`, `bigint` or `Date`.
+   * @param end The ending value of the range. Can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` if the column, `start`, or `end` value is invalid.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public between(
-    start: string | number | Ref,
-    end: string | number | Ref
-  ): this {
-    if (!isFullStr(this.column)) {
+  public between(start: Value | Ref, end: Value | Ref): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
     const isRefStart = start instanceof Ref;
     const isRefEnd = end instanceof Ref;
 
-    if (!(isRefStart || isFullStr(start) || isNum(start))) {
+    if (!(isRefStart || isValue(start))) {
       throw new QueryError(`Invalid start value: ${String(start)}`);
     }
 
-    if (!(isRefEnd || isFullStr(end) || isNum(end))) {
+    if (!(isRefEnd || isValue(end))) {
       throw new QueryError(`Invalid end value: ${String(end)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const startHolder = isRefStart ? start.column : '?';
-    const endHolder = isRefEnd ? end.column : '?';
-    const condition = `${not}${this.column} BETWEEN ${startHolder} AND ${endHolder}`;
-
-    if (!isRefStart) this.query.values.push(start);
-    if (!isRefEnd) this.query.values.push(end);
-
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.compare('BETWEEN', [start, end]);
   }
 
   /**
    * Compares the column with a list of values to check if it is included in the list.
    *
-   * @param values The values to check against the column. Each value can be either a `string` or a `number`.
+   * @param values The values to check against the column. Each value can be a `string`, `number`, `boolean`, `bigint` or `Date`.
    * @throws `QueryError` if the column is invalid or if the values array is empty or contains invalid values.
    * @returns The `Condition` instance for chaining further query conditions.
    */
-  public in(...values: Array<string | number | Ref>): this {
-    if (!isFullStr(this.column)) {
+  public in(...values: Array<Value | Ref>): this {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -1019,25 +1682,12 @@ export class Condition {
     }
 
     values.forEach((v) => {
-      if (!(v instanceof Ref || isFullStr(v) || isNum(v))) {
+      if (!(v instanceof Ref || isValue(v))) {
         throw new QueryError(`Invalid value: ${String(v)}`);
       }
     });
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholders = values
-      .map((v) => (v instanceof Ref ? v.column : '?'))
-      .join(', ');
-    const condition = `${not}${this.column} IN (${placeholders})`;
-
-    values.forEach((v) =>
-      v instanceof Ref ? null : this.query.values.push(v)
-    );
-
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.compare('IN', values);
   }
 
   /**
@@ -1048,7 +1698,7 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public inSubquery(subquery: (select: Select) => void): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -1056,18 +1706,7 @@ export class Condition {
       throw new QueryError(`Invalid subquery: ${String(subquery)}`);
     }
 
-    const select = new Select(this.query.connection);
-
-    subquery(select);
-
-    const not = this.negate ? 'NOT ' : '';
-    const condition = `${not}${this.column} IN (${select.build(true)})`;
-
-    this.query.values.push(...select.get.values());
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.subquery('IN', subquery);
   }
 
   /**
@@ -1083,7 +1722,7 @@ export class Condition {
    * - `%John` would match strings that end with `John`.
    */
   public like(value: string | Ref): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -1093,15 +1732,7 @@ export class Condition {
       throw new QueryError(`Invalid value: ${String(value)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const placeholder = isRef ? value.column : '?';
-    const condition = `${not}${this.column} LIKE ${placeholder}`;
-
-    if (!isRef) this.query.values.push(value);
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.compare('LIKE', [value]);
   }
 
   /**
@@ -1112,16 +1743,11 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public isNull(): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
-    const not = this.negate ? 'NOT ' : '';
-    const condition = `${not}${this.column} IS NULL`;
-
-    this.stack.push(condition);
-    this.negate = false;
-    return this;
+    return this.compare('IS NULL', []);
   }
 
   /**
@@ -1137,18 +1763,7 @@ export class Condition {
       throw new QueryError(`Invalid subquery: ${String(subquery)}`);
     }
 
-    const select = new Select(this.query.connection);
-
-    subquery(select); // build the query
-
-    const not = this.negate ? 'NOT ' : '';
-    const condition = `${not}EXISTS (${select.build(true)})`;
-
-    this.query.values.push(...select.get.values());
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.subquery('EXISTS', subquery);
   }
 
   /**
@@ -1162,7 +1777,7 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public any(operator: Operator, subquery: (select: Select) => void): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -1174,20 +1789,7 @@ export class Condition {
       throw new QueryError(`Invalid subquery: ${String(subquery)}`);
     }
 
-    const select = new Select(this.query.connection);
-
-    subquery(select); // build the query
-
-    const not = this.negate ? 'NOT ' : '';
-    const sign = operator.description;
-    const query = select.build(true);
-    const condition = `${not}${this.column} ${sign} ANY (${query})`;
-
-    this.query.values.push(...select.get.values());
-    this.stack.push(condition);
-    this.negate = false;
-
-    return this;
+    return this.subquery(`${operator.description} ANY`, subquery);
   }
 
   /**
@@ -1201,7 +1803,7 @@ export class Condition {
    * @returns The `Condition` instance for chaining further query conditions.
    */
   public all(operator: Operator, subquery: (select: Select) => void): this {
-    if (!isFullStr(this.column)) {
+    if (!(this.column instanceof Expr || isFullStr(this.column))) {
       throw new QueryError(`Invalid column: ${String(this.column)}`);
     }
 
@@ -1213,19 +1815,31 @@ export class Condition {
       throw new QueryError(`Invalid subquery: ${String(subquery)}`);
     }
 
-    const select = new Select(this.query.connection);
-
-    subquery(select); // build the query
-
-    const not = this.negate ? 'NOT ' : '';
-    const sign = operator.description;
-    const query = select.build(true);
-    const condition = `${not}${this.column} ${sign} ALL (${query})`;
-
-    this.query.values.push(...select.get.values());
-    this.stack.push(condition);
-    this.negate = false;
+    return this.subquery(`${operator.description} ALL`, subquery);
+  }
+}
 
-    return this;
+/**
+ * Creates a standalone condition that can be reused across queries.
+ *
+ * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+ * @returns The standalone `Condition` instance.
+ * @throws `QueryError` if the condition is not a function.
+ *
+ * @example
+ * // Define the condition once
+ * const active = condition((col) => col('status').equal('active'));
+ *
+ * // Use it in any query
+ * builder.select().from('users').where(active);
+ * builder.delete().from('sessions').where(active);
+ */
+export function condition(condition: (col: Col, con: Con) => void): Condition {
+  if (!isFunc(condition)) {
+    throw new QueryError(`Invalid condition: ${String(condition)}`);
   }
+
+  const instance = new Condition();
+  condition(instance.col.bind(instance), instance);
+  return instance;
 }
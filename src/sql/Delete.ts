@@ -1,8 +1,15 @@
 import { QueryError } from '@megaorm/errors';
-import { isChildOf, isFullStr, isFunc, isUndefined } from '@megaorm/test';
+import {
+  isChildOf,
+  isFullStr,
+  isFunc,
+  isObj,
+  isUndefined,
+} from '@megaorm/test';
 
-import { Query } from './Query';
-import { Col, Con, Condition } from './Condition';
+import { Compiled, Query } from './Query';
+import { format, quote } from './Dialect';
+import { Col, Con, Condition, Filters } from './Condition';
 
 /**
  * The `Delete` class provides methods to construct and execute `DELETE` SQL queries on a specified table.
@@ -79,12 +86,30 @@ export class Delete extends Query<void> {
   }
 
   /**
-   * Builds and returns the final SQL `DELETE` statement.
+   * Creates a deep copy of the `Delete` query, chaining on the copy does not affect the original.
+   *
+   * @returns A new `Delete` instance with the same table and condition.
+   */
+  public clone(): Delete {
+    const del = new Delete(this.connection);
+
+    del.table = this.table;
+    del.condition = this.condition ? this.condition.clone(del) : undefined;
+
+    // inherited from Query
+    del.values = [...this.values];
+    del.query = this.query;
+
+    return del;
+  }
+
+  /**
+   * Compiles the final SQL `DELETE` statement and its values, without mutating the query.
    *
    * @throws `QueryError` if the table name is invalid or if no `WHERE` condition is provided.
-   * @returns The constructed SQL `DELETE` statement as a string.
+   * @returns The immutable compiled `DELETE` statement and its values.
    */
-  public build(): string {
+  public compile(): Compiled {
     if (!isFullStr(this.table)) {
       throw new QueryError(`Invalid DELETE table: ${String(this.table)}`);
     }
@@ -93,7 +118,23 @@ export class Delete extends Query<void> {
       throw new QueryError(`DELETE condition is required`);
     }
 
-    return `DELETE FROM ${this.table} WHERE ${this.condition.build()};`;
+    const table = quote(this.table, this.connection);
+    const condition = this.condition.compile(this.connection);
+
+    return this.freeze(
+      format(`DELETE FROM ${table} WHERE ${condition.sql};`, this.connection),
+      condition.values
+    );
+  }
+
+  /**
+   * Builds and returns the final SQL `DELETE` statement.
+   *
+   * @throws `QueryError` if the table name is invalid or if no `WHERE` condition is provided.
+   * @returns The constructed SQL `DELETE` statement as a string.
+   */
+  public build(): string {
+    return this.compile().sql;
   }
 
   /**
@@ -115,12 +156,14 @@ export class Delete extends Query<void> {
   /**
    * Adds a `WHERE` clause to the query.
    *
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
    * @returns The `Delete` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if `condition` is not a function.
+   * @throws `QueryError` if `condition` is not a function, a `Condition` or an object.
    */
-  public where(condition: (col: Col, con: Con) => void): this {
-    if (!isFunc(condition)) {
+  public where(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
       throw new QueryError(`Invalid DELETE condition: ${String(condition)}`);
     }
 
@@ -128,7 +171,71 @@ export class Delete extends Query<void> {
       this.condition = new Condition(this);
     }
 
-    condition(this.condition.col.bind(this.condition), this.condition);
+    if (condition instanceof Condition) {
+      this.condition.include(condition);
+      return this;
+    }
+
+    if (isObj(condition)) {
+      this.condition.filter(condition as Filters);
+      return this;
+    }
+
+    const callback = condition as (col: Col, con: Con) => void;
+
+    callback(this.condition.col.bind(this.condition), this.condition);
+    return this;
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public andWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('AND', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public orWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('OR', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by the given logical operator if the clause already has a condition.
+   *
+   * @param operator The logical operator (`AND` or `OR`).
+   * @param condition A function to define the condition, a standalone `Condition`, or object-style filters.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   */
+  private append(
+    operator: 'AND' | 'OR',
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
+      throw new QueryError(`Invalid DELETE condition: ${String(condition)}`);
+    }
+
+    if (isUndefined(this.condition)) {
+      this.condition = new Condition(this);
+    }
+
+    this.condition.append(operator, condition);
     return this;
   }
 
@@ -207,4 +314,68 @@ export class Delete extends Query<void> {
     this.condition.close();
     return this;
   }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public group(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.condition)) {
+      this.condition = new Condition(this);
+    }
+
+    this.condition.group(callback);
+    return this;
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public andGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.condition)) {
+      this.condition = new Condition(this);
+    }
+
+    this.condition.andGroup(callback);
+    return this;
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public orGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.condition)) {
+      this.condition = new Condition(this);
+    }
+
+    this.condition.orGroup(callback);
+    return this;
+  }
+
+  /**
+   * Adds a negated group of conditions wrapped in parentheses to the `WHERE` clause (e.g., `NOT (a = ? OR b = ?)`).
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Delete` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public notGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.condition)) {
+      this.condition = new Condition(this);
+    }
+
+    this.condition.notGroup(callback);
+    return this;
+  }
 }
@@ -0,0 +1,248 @@
+import { QueryError } from '@megaorm/errors';
+import { MegaPoolConnection } from '@megaorm/pool';
+import { isMySQL, isPoolCon, isPostgreSQL, isSQLite } from '@megaorm/utils';
+import {
+  isArr,
+  isBool,
+  isDate,
+  isFullStr,
+  isNull,
+  isNum,
+  isObj,
+  isStr,
+} from '@megaorm/test';
+
+/**
+ * Represents a raw SQL expression that must be used as is, without quoting.
+ */
+export class Expr {
+  /** The SQL expression. */
+  expression: string;
+
+  /**
+   * Creates a new raw SQL expression.
+   * @param expression The SQL expression.
+   */
+  constructor(expression: string) {
+    this.expression = expression;
+  }
+}
+
+/**
+ * Creates a raw SQL expression that is never quoted as an identifier.
+ *
+ * @param expression The SQL expression (e.g., `COUNT(*)`, `CURRENT_TIMESTAMP`).
+ * @returns An `Expr` object representing the given expression.
+ * @throws `QueryError` if the expression is invalid.
+ */
+export function expr(expression: string): Expr {
+  if (!isFullStr(expression)) {
+    throw new QueryError(`Invalid expression: ${String(expression)}`);
+  }
+
+  return new Expr(expression);
+}
+
+/**
+ * Matches a single unquoted identifier (e.g., `users`, `createdAt`).
+ */
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+/**
+ * Matches a single identifier that is already quoted (e.g., `"users"`, `` `users` ``).
+ */
+const QUOTED = /^("[^"]+"|`[^`]+`)$/;
+
+/**
+ * Quotes a dotted identifier path (e.g., `schema.table.column`).
+ *
+ * @param path The identifier path to quote.
+ * @param char The quote character of the dialect.
+ * @returns The quoted path, or `undefined` if the path is not made of identifiers.
+ */
+function quotePath(path: string, char: string): string | undefined {
+  const segments = path.split('.');
+  const quoted = new Array();
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+
+    if (segment === '*' && i === segments.length - 1) {
+      quoted.push(segment);
+    } else if (QUOTED.test(segment)) {
+      quoted.push(segment);
+    } else if (IDENTIFIER.test(segment)) {
+      quoted.push(`${char}${segment}${char}`);
+    } else return undefined;
+  }
+
+  return quoted.join('.');
+}
+
+/**
+ * Quotes the given identifier based on the connection driver.
+ *
+ * @param identifier The table, column or alias to quote, or an `Expr` to use as is.
+ * @param con The connection object.
+ * @returns The quoted identifier.
+ * @throws `QueryError` if the identifier or connection is invalid.
+ * @notes
+ * - For **MySQL**, identifiers are quoted with backticks (`` `users` ``).
+ * - For **PostgreSQL** and **SQLite**, identifiers are quoted with double quotes (`"users"`).
+ * - Dotted paths are quoted segment by segment (`"public"."users"."id"`), and `*` is kept as is.
+ * - Aliases are quoted as well (`"users"."email" AS "mail"`).
+ * - Anything that is not an identifier (e.g., `COUNT(*)`) is kept as is, use `expr()` for
+ *   expressions that look like identifiers (e.g., `CURRENT_TIMESTAMP`).
+ */
+export function quote(
+  identifier: string | Expr,
+  con: MegaPoolConnection
+): string {
+  if (!isPoolCon(con)) {
+    throw new QueryError(`Invalid connection: ${con}`);
+  }
+
+  if (identifier instanceof Expr) return identifier.expression;
+
+  if (!isFullStr(identifier)) {
+    throw new QueryError(`Invalid identifier: ${String(identifier)}`);
+  }
+
+  const char = isMySQL(con.driver) ? '`' : '"';
+  const match = identifier.trim().match(/^(.+?)\s+AS\s+(\S+)$/i);
+
+  if (match) {
+    const name = quotePath(match[1], char) || match[1];
+    const alias = quotePath(match[2], char) || match[2];
+    return `${name} AS ${alias}`;
+  }
+
+  return quotePath(identifier.trim(), char) || identifier;
+}
+
+/**
+ * Compiles the placeholders of the given SQL string based on the connection driver.
+ *
+ * Builders always produce `?` placeholders, subqueries and raw conditions included,
+ * so the final statement is compiled once right before it is executed.
+ *
+ * @param sql The SQL string containing `?` placeholders.
+ * @param con The connection object.
+ * @returns The SQL string with placeholders compiled for the connection driver.
+ * @throws `QueryError` if the SQL string or connection is invalid.
+ * @notes
+ * - For **PostgreSQL**, placeholders are numbered in order of appearance (`$1`, `$2`, ...).
+ * - For **MySQL** and **SQLite**, the SQL string is kept as is.
+ * - For **PostgreSQL**, an escaped placeholder (`\?`) is compiled to a literal `?` and is never numbered,
+ *   use it for operators like the JSONB `?` in raw conditions.
+ * - A `?` inside a quoted string or identifier (`'...'`, `"..."` or `` `...` ``) is never a placeholder.
+ */
+export function format(sql: string, con: MegaPoolConnection): string {
+  if (!isStr(sql)) {
+    throw new QueryError(`Invalid SQL: ${String(sql)}`);
+  }
+
+  if (!isPoolCon(con)) {
+    throw new QueryError(`Invalid connection: ${con}`);
+  }
+
+  if (!isPostgreSQL(con.driver)) return sql;
+
+  let index = 0;
+
+  // Quoted strings and identifiers are matched first, so their content is kept as is
+  return sql.replace(
+    /'(?:[^']|'')*'|"(?:[^"]|"")*"|`(?:[^`]|``)*`|\\\?|\?/g,
+    (match) => {
+      if (match === '\\?') return '?';
+      if (match === '?') return `$${++index}`;
+      return match;
+    }
+  );
+}
+
+/**
+ * Represents a JSON document stored in a JSON column (a plain object or an array).
+ */
+export type Json = { [key: string]: unknown } | Array<unknown>;
+
+/**
+ * Represents a column value that can be inserted or updated.
+ */
+export type Field =
+  string | number | boolean | bigint | Date | Buffer | Json | null;
+
+/**
+ * Represents a function that converts a column value before it is serialized.
+ */
+export type Transformer = (value: any) => Field;
+
+/**
+ * Represents a map of column names to their transformers.
+ */
+export type Transformers = { [column: string]: Transformer };
+
+/**
+ * Checks if the given value can be stored in a column.
+ *
+ * @param value The value to check.
+ * @returns `true` for strings, numbers, booleans, bigints, valid dates, buffers, plain objects, arrays and `null`.
+ */
+export function isField(value: unknown): boolean {
+  if (isDate(value)) return !isNaN((value as Date).getTime());
+  if (Buffer.isBuffer(value) || isArr(value)) return true;
+
+  if (isObj(value)) {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  return (
+    isNull(value) ||
+    isStr(value) ||
+    isNum(value) ||
+    isBool(value) ||
+    typeof value === 'bigint'
+  );
+}
+
+/**
+ * Formats the given date as a SQLite timestamp.
+ *
+ * @param date The date to format.
+ * @returns The UTC date formatted as `YYYY-MM-DD HH:MM:SS`, followed by `.SSS` if it has milliseconds.
+ */
+function timestamp(date: Date): string {
+  const [day, time] = date.toISOString().slice(0, -1).split('T');
+  return `${day} ${time.replace(/\.000$/, '')}`;
+}
+
+/**
+ * Serializes the given value based on the connection driver.
+ *
+ * @param value The value to serialize.
+ * @param con The connection object.
+ * @returns The serialized value, ready to be bound to a placeholder.
+ * @notes
+ * - Booleans are bound as `1` or `0` for **MySQL** and **SQLite**, and as is for **PostgreSQL**.
+ * - Dates are bound as UTC `YYYY-MM-DD HH:MM:SS[.SSS]` strings for **SQLite**, matching the format of its date functions
+ *   (e.g., `CURRENT_TIMESTAMP`, `datetime()`), and as native timestamps for **MySQL** and **PostgreSQL**.
+ * - Objects are bound as JSON strings for **MySQL** and **SQLite**, and as is for **PostgreSQL**,
+ *   where the driver encodes them for `JSON` and `JSONB` columns.
+ * - Arrays are always bound as JSON strings, so **PostgreSQL** never mistakes them for native arrays.
+ * - Strings, numbers, bigints, buffers and `null` are bound as is.
+ */
+export function serialize(value: unknown, con: MegaPoolConnection): unknown {
+  if (isBool(value)) return isPostgreSQL(con.driver) ? value : Number(value);
+  if (isDate(value)) {
+    return isSQLite(con.driver) ? timestamp(value as Date) : value;
+  }
+
+  if (Buffer.isBuffer(value)) return value;
+  if (isArr(value)) return JSON.stringify(value);
+  if (isObj(value)) {
+    return isPostgreSQL(con.driver) ? value : JSON.stringify(value);
+  }
+
+  return value;
+}
@@ -7,13 +7,12 @@ import {
   isArrOfStr,
   isEmptyArr,
   isFullStr,
-  isNull,
-  isNum,
+  isFunc,
   isObj,
-  isStr,
 } from '@megaorm/test';
 
-import { Query } from './Query';
+import { format, isField, quote, serialize, Transformers } from './Dialect';
+import { Compiled, Query } from './Query';
 
 /**
  * The `Insert` class provides methods to build SQL INSERT queries for a specified table.
@@ -102,6 +101,11 @@ export class Insert<
    */
   private returnings: string[];
 
+  /**
+   * An object with keys as column names and functions converting their values before serialization.
+   */
+  private transformers: Transformers = {};
+
   /**
    * Resets the current `Insert` instance by clearing all properties.
    * This method allows reusing the same instance to create a new INSERT statement from scratch.
@@ -111,6 +115,7 @@ export class Insert<
   public reset(): this {
     this.table = undefined;
     this.columns = undefined;
+    this.transformers = {};
 
     // inherted from Query
     this.values = new Array();
@@ -120,12 +125,13 @@ export class Insert<
   }
 
   /**
-   * Builds the final SQL INSERT query based on the provided `table`, `columns`, and `values`.
+   * Compiles the final SQL INSERT query and its values, without mutating the query.
    *
-   * @returns The constructed SQL INSERT statement as a string.
+   * @returns The immutable compiled INSERT statement and its values, `null` values are inlined as `NULL`.
    * @throws `QueryError` if `table`, `columns`, or `values` are invalid.
+   * @note Values are transformed and serialized for the connection driver.
    */
-  public build(): string {
+  public compile(): Compiled {
     if (!isFullStr(this.table)) {
       throw new QueryError(`Invalid INSERT table: ${String(this.table)}`);
     }
@@ -138,18 +144,60 @@ export class Insert<
       throw new QueryError(`Invalid INSERT values: ${String(this.table)}`);
     }
 
-    const columns = this.columns.join(', ');
-    const values = this.values
+    const table = quote(this.table, this.connection);
+    const columns = this.columns
+      .map((column) => quote(column, this.connection))
+      .join(', ');
+    const fields = this.values.map((r) =>
+      r.map((v, i) => this.field(this.columns[i], v))
+    );
+    const values = fields
       .map((r) => `(${r.map((v) => (v === null ? 'NULL' : '?')).join(', ')})`)
       .join(', ');
 
     const returnings = this.returnings
-      ? ` RETURNING ${this.returnings.join(', ')}`
+      ? ` RETURNING ${this.returnings
+          .map((column) => quote(column, this.connection))
+          .join(', ')}`
       : '';
 
-    this.values = this.values.map((row) => row.filter((v) => v !== null));
+    return this.freeze(
+      format(
+        `INSERT INTO ${table} (${columns}) VALUES ${values}${returnings};`,
+        this.connection
+      ),
+      fields.flat().filter((v) => v !== null)
+    );
+  }
+
+  /**
+   * Transforms and serializes the value of the given column.
+   *
+   * @param column The name of the column.
+   * @param value The value to insert.
+   * @returns The value serialized for the connection driver.
+   * @throws `QueryError` if the transformed value is invalid.
+   */
+  private field(column: string, value: unknown): unknown {
+    const transformer = this.transformers[column];
+
+    if (transformer && value !== null) value = transformer(value);
+
+    if (!isField(value)) {
+      throw new QueryError(`Invalid INSERT value: ${String(value)}`);
+    }
 
-    return `INSERT INTO ${this.table} (${columns}) VALUES ${values}${returnings};`;
+    return serialize(value, this.connection);
+  }
+
+  /**
+   * Builds the final SQL INSERT query based on the provided `table`, `columns`, and `values`.
+   *
+   * @returns The constructed SQL INSERT statement as a string.
+   * @throws `QueryError` if `table`, `columns`, or `values` are invalid.
+   */
+  public build(): string {
+    return this.compile().sql;
   }
 
   /**
@@ -183,6 +231,35 @@ export class Insert<
     return this;
   }
 
+  /**
+   * Registers transformers to convert column values before they are serialized.
+   *
+   * @param transformers An object with keys as column names and functions converting their values.
+   * @returns The `Insert` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the transformers are invalid.
+   *
+   * @notes
+   * - Transformers run when the query is compiled and are never called for `null` values.
+   * - Transformers must return a valid insert value (e.g., `string`, `number`, `Date`, `null`).
+   * - Register transformers before adding rows to insert values of custom types (e.g., class instances).
+   */
+  public transform(transformers: Transformers): this {
+    if (!isObj(transformers)) {
+      throw new QueryError(
+        `Invalid INSERT transformers: ${String(transformers)}`
+      );
+    }
+
+    Object.keys(transformers).forEach((column) => {
+      if (!isFunc(transformers[column])) {
+        throw new QueryError(`Invalid INSERT transformer: ${column}`);
+      }
+    });
+
+    this.transformers = { ...this.transformers, ...transformers };
+    return this;
+  }
+
   /**
    * Adds a single row of data to the INSERT statement.
    *
@@ -192,12 +269,13 @@ export class Insert<
    *
    * @notes
    * - The keys in the `row` object represent column names (e.g. `first_name` `last_name`).
-   * - The values in the `row` object represent the insert values and must be either `string` or `number` or `null`.
-   * - All values can be represented using `strings` and `numbers` and `null`:
-   *   - Boolean: use `1` for true and `0` for false
-   *   - Null: use `null`
-   *   - JSON: use `JSON.stringify(object)` for objects
-   *   - Dates: use date strings formatted as `'YYYY-MM-DD hh:mm:ss'`
+   * - The values in the `row` object represent the insert values and must be one of:
+   *   - `string`, `number`, `bigint` or `null`
+   *   - `boolean`: bound as `1` or `0` for MySQL and SQLite
+   *   - `Date`: bound as a `YYYY-MM-DD HH:MM:SS` UTC string for SQLite
+   *   - `Buffer`: for `BLOB` and `BYTEA` columns
+   *   - Plain objects and arrays: for `JSON` and `JSONB` columns
+   * - Values of columns with a transformer can be of any type, see `transform()`.
    */
   public row(row: Row): this {
     if (!isObj(row)) {
@@ -226,10 +304,12 @@ export class Insert<
       this.columns = columns;
     }
 
-    const values = Object.values(row);
+    const values = this.columns.map((column) => row[column]);
+
+    values.forEach((value, index) => {
+      if (this.transformers[this.columns[index]]) return;
 
-    values.forEach((value) => {
-      if (!(isNull(value) || isStr(value) || isNum(value))) {
+      if (!isField(value)) {
         throw new QueryError(`Invalid INSERT value: ${String(value)}`);
       }
     });
@@ -247,12 +327,13 @@ export class Insert<
    *
    * @notes
    * - The keys in the `row` object represent column names (e.g. `first_name` `last_name`).
-   * - The values in the `row` object represent the insert values and must be either `string` or `number` or `null`.
-   * - All values can be represented using `strings` and `numbers` and `null`:
-   *   - Boolean: use `1` for true and `0` for false
-   *   - Null: use `null`
-   *   - JSON: use `JSON.stringify(object)` for objects
-   *   - Dates: use date strings formatted as `'YYYY-MM-DD hh:mm:ss'`
+   * - The values in the `row` object represent the insert values and must be one of:
+   *   - `string`, `number`, `bigint` or `null`
+   *   - `boolean`: bound as `1` or `0` for MySQL and SQLite
+   *   - `Date`: bound as a `YYYY-MM-DD HH:MM:SS` UTC string for SQLite
+   *   - `Buffer`: for `BLOB` and `BYTEA` columns
+   *   - Plain objects and arrays: for `JSON` and `JSONB` columns
+   * - Values of columns with a transformer can be of any type, see `transform()`.
    */
   public rows(rows: Rows): this {
     if (!isArrOfObj(rows)) {
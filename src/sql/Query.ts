@@ -2,6 +2,7 @@ import { isPoolCon } from '@megaorm/utils';
 import { QueryError } from '@megaorm/errors';
 import { MegaQueryResult } from '@megaorm/driver';
 import { MegaPoolConnection } from '@megaorm/pool';
+import { isDefined, isFunc } from '@megaorm/test';
 
 /**
  * Interface defining the methods for logging query information.
@@ -41,6 +42,12 @@ interface Getter {
   values(): Array<string | number>;
 }
 
+/**
+ * Represents a compiled query, the SQL string and the values bound to its placeholders in order.
+ * Compiled queries are frozen, so they cannot be modified once built.
+ */
+export type Compiled = Readonly<{ sql: string; values: ReadonlyArray<any> }>;
+
 /**
  * Abstract base class representing a database query.
  *
@@ -52,7 +59,7 @@ interface Getter {
  */
 export abstract class Query<T> {
   /**
-   * Array to hold the values associated with the SQL query parameters.
+   * Array to hold the values associated with the SQL query parameters, used along with a predefined `query`.
    */
   protected values: Array<any> = new Array();
 
@@ -62,7 +69,7 @@ export abstract class Query<T> {
   protected connection: MegaPoolConnection;
 
   /**
-   * The SQL query string that will be executed.
+   * The predefined SQL query string that will be executed instead of the compiled query, if any.
    */
   protected query: string;
 
@@ -70,16 +77,16 @@ export abstract class Query<T> {
    * Logger for the current query, providing methods to log query details.
    */
   public log: Logger<T> = {
-    query: () => (console.log(this.query ? this.query : this.build()), this),
-    values: () => (console.log(this.values), this),
+    query: () => (console.log(this.result().sql), this),
+    values: () => (console.log(this.result().values), this),
   };
 
   /**
    * Getter for retrieving query parameters including the SQL string, values, and connection.
    */
   public get: Getter = {
-    query: (): string => (this.query ? this.query : this.build()),
-    values: (): Array<string | number> => this.values,
+    query: (): string => this.result().sql,
+    values: (): Array<string | number> => [...this.result().values],
   };
 
   /**
@@ -100,10 +107,30 @@ export abstract class Query<T> {
    * @returns A promise that resolves with the result of the query execution.
    */
   public exec(): Promise<T> {
-    return this.connection.query(
-      this.get.query(),
-      this.get.values().flat()
-    ) as Promise<T>;
+    const { sql, values } = this.result();
+    return this.connection.query(sql, values.flat()) as Promise<T>;
+  }
+
+  /**
+   * Returns the predefined query and its values if any, or compiles the query.
+   *
+   * @returns The SQL query string and its values.
+   */
+  private result(): Compiled {
+    return this.query
+      ? { sql: this.query, values: this.values }
+      : this.compile();
+  }
+
+  /**
+   * Freezes the given SQL query string and values into a compiled query.
+   *
+   * @param sql The SQL query string.
+   * @param values The values bound to the query placeholders, in order.
+   * @returns The immutable compiled query.
+   */
+  protected freeze(sql: string, values: Array<unknown>): Compiled {
+    return Object.freeze({ sql, values: Object.freeze(values) });
   }
 
   /**
@@ -121,12 +148,75 @@ export abstract class Query<T> {
     return this.connection.query(query, values) as Promise<R>;
   }
 
+  /**
+   * Applies the given callback to the query only if the flag is truthy.
+   *
+   * @param flag The flag deciding whether the callback is applied.
+   * @param callback A function that receives the query instance, invoked if the flag is truthy.
+   * @param fallback An optional function that receives the query instance, invoked if the flag is falsy.
+   * @returns The query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback or the fallback is not a valid function.
+   */
+  public when(
+    flag: unknown,
+    callback: (query: this) => void,
+    fallback?: (query: this) => void
+  ): this {
+    if (!isFunc(callback)) {
+      throw new QueryError(`Invalid WHEN callback: ${String(callback)}`);
+    }
+
+    if (isDefined(fallback) && !isFunc(fallback)) {
+      throw new QueryError(`Invalid WHEN fallback: ${String(fallback)}`);
+    }
+
+    if (flag) callback(this);
+    else if (fallback) fallback(this);
+
+    return this;
+  }
+
+  /**
+   * Applies the given callback to the query only if the flag is falsy.
+   *
+   * @param flag The flag deciding whether the callback is skipped.
+   * @param callback A function that receives the query instance, invoked if the flag is falsy.
+   * @param fallback An optional function that receives the query instance, invoked if the flag is truthy.
+   * @returns The query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback or the fallback is not a valid function.
+   */
+  public unless(
+    flag: unknown,
+    callback: (query: this) => void,
+    fallback?: (query: this) => void
+  ): this {
+    if (!isFunc(callback)) {
+      throw new QueryError(`Invalid UNLESS callback: ${String(callback)}`);
+    }
+
+    if (isDefined(fallback) && !isFunc(fallback)) {
+      throw new QueryError(`Invalid UNLESS fallback: ${String(fallback)}`);
+    }
+
+    if (!flag) callback(this);
+    else if (fallback) fallback(this);
+
+    return this;
+  }
+
   /**
    * Resets the query to its initial state, allowing for reuse.
    * @returns A new instance of the `Query` class.
    */
   public abstract reset(): Query<T>;
 
+  /**
+   * Compiles the SQL query string and its values based on the current state, without mutating it.
+   * Calling it again on the same state returns an equal result.
+   * @returns The immutable compiled query, with the values in placeholders order.
+   */
+  public abstract compile(): Compiled;
+
   /**
    * Builds and returns the SQL query string based on the current state.
    * @returns The constructed SQL query string.
@@ -1,16 +1,25 @@
 import { Row, Rows } from '@megaorm/driver';
 import { QueryError } from '@megaorm/errors';
+import { isMySQL, isSQLite } from '@megaorm/utils';
 import {
+  isArr,
+  isArrOfStr,
   isBool,
+  isDate,
   isDefined,
   isFullStr,
   isFunc,
   isInt,
+  isNum,
+  isObj,
+  isStr,
   isUndefined,
 } from '@megaorm/test';
 
-import { Col, Con, Condition } from './Condition';
-import { Query } from './Query';
+import { Col, Con, Condition, Filters } from './Condition';
+import { Expr, format, quote } from './Dialect';
+import { Compiled, Query } from './Query';
+import { Window, WindowFunction } from './Window';
 
 /**
  * Constants representing the sorting order for queries.
@@ -28,6 +37,36 @@ export const DESC = Symbol('DESC');
  */
 export const ASC = Symbol('ASC');
 
+/**
+ * Constants representing the position of `NULL` values in the sorting order.
+ *
+ * These symbols are used with `Select.orderBy()`, where `NULLS_FIRST` sorts `NULL` values
+ * before any other value and `NULLS_LAST` sorts them after any other value.
+ */
+export const NULLS_FIRST = Symbol('NULLS FIRST');
+
+/**
+ * Constants representing the position of `NULL` values in the sorting order.
+ *
+ * These symbols are used with `Select.orderBy()`, where `NULLS_FIRST` sorts `NULL` values
+ * before any other value and `NULLS_LAST` sorts them after any other value.
+ */
+export const NULLS_LAST = Symbol('NULLS LAST');
+
+/**
+ * Represents a random sorting order.
+ */
+const RANDOM = Symbol('RANDOM');
+
+/**
+ * Creates a random sorting order, to be used with `Select.orderBy()`.
+ *
+ * @returns A symbol compiled to `RAND()` for MySQL, and `RANDOM()` for PostgreSQL and SQLite.
+ */
+export function random(): symbol {
+  return RANDOM;
+}
+
 /**
  * Represents pagination results.
  *
@@ -68,6 +107,295 @@ export interface Pagination<R> {
   total: { items: number; pages: number };
 }
 
+/**
+ * Represents pagination results without totals.
+ *
+ *  `result` The items for the current page.
+ *  `page` An object containing pagination details:
+ *   - `prev`: The previous page number, or `undefined` if the current page is the first page.
+ *   - `next`: The next page number, or `undefined` if the current page is the last page.
+ *   - `current`: The current page number.
+ *   - `items`: The number of items per page.
+ */
+export interface SimplePagination<R> {
+  result: Array<R>;
+  page: {
+    prev: number | void;
+    next: number | void;
+    current: number;
+    items: number;
+  };
+}
+
+/**
+ * Represents the options of a keyset (cursor) pagination.
+ *
+ *  `orderBy` One or more unique sort columns, as a column name, an array of column names sorted in ascending order,
+ *  or an object mapping each column to its sorting order (`ASC` or `DESC`).
+ *  `after` The cursor to fetch the items after (the `next` cursor of the previous page).
+ *  `before` The cursor to fetch the items before (the `prev` cursor of the next page).
+ *  `limit` The number of items per page (default is `10`).
+ *
+ * @example
+ * const options: CursorOptions = {
+ *   orderBy: { created_at: DESC, id: DESC },
+ *   after: pagination.cursor.next,
+ *   limit: 20,
+ * };
+ */
+export interface CursorOptions {
+  orderBy:
+    string | Array<string> | { [column: string]: typeof ASC | typeof DESC };
+  after?: string;
+  before?: string;
+  limit?: number;
+}
+
+/**
+ * Represents keyset (cursor) pagination results.
+ *
+ *  `result` The items for the current page.
+ *  `cursor` An object containing the cursors of the adjacent pages:
+ *   - `prev`: The cursor of the previous page, or `undefined` if there is no previous page.
+ *   - `next`: The cursor of the next page, or `undefined` if the current page is the last page.
+ *  `items` The number of items per page.
+ *
+ * @example
+ * // Example of a cursor paginated query result:
+ * const pagination: CursorPagination<Post> = {
+ *   result: posts, // e.g., the list of posts for the current page
+ *   cursor: {
+ *     prev: 'WzQyXQ', // Pass as `before` to get the previous page
+ *     next: 'WzMzXQ', // Pass as `after` to get the next page
+ *   },
+ *   items: 10, // Items per page
+ * };
+ */
+export interface CursorPagination<R> {
+  result: Array<R>;
+  cursor: { prev: string | undefined; next: string | undefined };
+  items: number;
+}
+
+/**
+ * Represents the `USING` columns of a join, shared by both joined tables.
+ */
+export class Using {
+  /** The shared column names. */
+  columns: Array<string>;
+
+  /**
+   * Creates a new `USING` clause for the given columns.
+   * @param columns The shared column names.
+   */
+  constructor(columns: Array<string>) {
+    this.columns = columns;
+  }
+}
+
+/**
+ * Creates a `USING` clause, joining tables on columns with the same name in both tables.
+ *
+ * @param columns The shared column names.
+ * @returns A `Using` object to pass to any join in place of the condition.
+ * @throws `QueryError` if the columns are invalid.
+ * @example
+ * // INNER JOIN orders USING (user_id)
+ * select.from('users').join('orders', using('user_id'));
+ */
+export function using(...columns: Array<string>): Using {
+  if (!isArrOfStr(columns) || !columns.every((c) => isFullStr(c))) {
+    throw new QueryError(`Invalid USING columns: ${String(columns)}`);
+  }
+
+  return new Using(columns);
+}
+
+/**
+ * Represents a derived table, a subquery used as a table under the given alias.
+ */
+type Derived = { query: Select; alias: string };
+
+/**
+ * Resolves the cursor pagination sort columns.
+ *
+ * @param orderBy The column name, the column names, or the object mapping each column to its sorting order.
+ * @returns The sort columns and their sorting order.
+ * @throws `QueryError` if the columns or the sorting orders are invalid.
+ */
+function sorting(
+  orderBy: CursorOptions['orderBy']
+): Array<{ column: string; type: typeof ASC | typeof DESC }> {
+  if (isFullStr(orderBy)) return [{ column: orderBy as string, type: ASC }];
+
+  if (isArrOfStr(orderBy)) {
+    const columns = orderBy as Array<string>;
+
+    if (columns.length > 0 && columns.every((column) => isFullStr(column))) {
+      return columns.map((column) => ({ column, type: ASC }));
+    }
+  }
+
+  if (isObj(orderBy) && !isArr(orderBy)) {
+    const columns = Object.keys(orderBy);
+
+    if (
+      columns.length > 0 &&
+      columns.every((column) => [ASC, DESC].includes(orderBy[column]))
+    ) {
+      return columns.map((column) => ({ column, type: orderBy[column] }));
+    }
+  }
+
+  throw new QueryError(`Invalid cursor ORDER BY: ${String(orderBy)}`);
+}
+
+/**
+ * The first MySQL version supporting `INTERSECT` and `EXCEPT`.
+ */
+const MYSQL_SETS = [8, 0, 31];
+
+/**
+ * The first MySQL version supporting `LATERAL` derived tables.
+ */
+const MYSQL_LATERAL = [8, 0, 14];
+
+/**
+ * Checks if the given server version is at least the given minimum version.
+ *
+ * @param version The server version (e.g., `8.0.31`, `10.6.12-MariaDB`).
+ * @param minimum The minimum version as `[major, minor, patch]`.
+ * @returns `true` if the version is defined and at least the minimum version.
+ */
+function supports(
+  version: string | undefined,
+  minimum: Array<number>
+): boolean {
+  if (isUndefined(version)) return false;
+
+  const parts = version.split(/[.-]/).slice(0, 3).map(Number);
+
+  for (let i = 0; i < minimum.length; i++) {
+    const part = isNaN(parts[i]) ? 0 : parts[i];
+    if (part !== minimum[i]) return part > minimum[i];
+  }
+
+  return true;
+}
+
+/**
+ * Coerces an aggregate result to a number, drivers return `DECIMAL` and `BIGINT` values as strings.
+ *
+ * @param value The aggregate result.
+ * @returns The numeric value, `null` for `NULL` results, or the value itself if it is not numeric (e.g., dates).
+ */
+function numeric(value: unknown): any {
+  if (isUndefined(value) || value === null) return null;
+  if (typeof value === 'bigint') return Number(value);
+  if (isStr(value) && (value as string).trim() !== '') {
+    const number = Number(value);
+    if (!isNaN(number)) return number;
+  }
+
+  return value;
+}
+
+/**
+ * Represents a sort column value stored in a cursor.
+ */
+type CursorValue = string | number | bigint | Date;
+
+/**
+ * Encodes the sort column values of a row into an opaque cursor.
+ *
+ * @param row The row to encode.
+ * @param columns The sort columns, qualified names are resolved to their last segment.
+ * @returns The encoded cursor.
+ * @throws `QueryError` if a sort column is missing from the row, or its value cannot be encoded.
+ *
+ * @note Dates and bigints are tagged as `{ date: iso }` and `{ bigint: digits }`, so they are restored
+ * with their original type and bound to the next query as the driver returned them.
+ */
+function encode(row: Row, columns: Array<string>): string {
+  const values = columns.map((column) => {
+    const value = row[column.split('.').pop()];
+
+    if (isUndefined(value) || value === null) {
+      throw new QueryError(`Missing cursor column: ${column}`);
+    }
+
+    if (isDate(value) && !isNaN(value.getTime())) {
+      return { date: (value as Date).toISOString() };
+    }
+
+    if (typeof value === 'bigint') return { bigint: value.toString() };
+    if (isStr(value) || isNum(value)) return value;
+
+    throw new QueryError(`Invalid cursor column value: ${column}`);
+  });
+
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Restores a sort column value from its decoded JSON representation.
+ *
+ * @param value The decoded value.
+ * @returns The sort column value, or `undefined` if the value is invalid.
+ */
+function restore(value: unknown): CursorValue | undefined {
+  if (isFullStr(value) || isNum(value)) return value as string | number;
+  if (!isObj(value)) return undefined;
+
+  const tagged = value as { date?: unknown; bigint?: unknown };
+  const keys = Object.keys(tagged);
+
+  if (keys.length !== 1) return undefined;
+
+  if (isStr(tagged.date)) {
+    const date = new Date(tagged.date as string);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  if (isStr(tagged.bigint) && /^-?\d+$/.test(tagged.bigint as string)) {
+    return BigInt(tagged.bigint as string);
+  }
+
+  return undefined;
+}
+
+/**
+ * Decodes an opaque cursor into the sort column values.
+ *
+ * @param cursor The cursor to decode.
+ * @param length The number of sort columns.
+ * @returns The sort column values.
+ * @throws `QueryError` if the cursor is invalid.
+ */
+function decode(cursor: string, length: number): Array<CursorValue> {
+  let values: unknown;
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch (error) {
+    throw new QueryError(`Invalid cursor: ${String(cursor)}`);
+  }
+
+  if (!isArr(values) || (values as Array<unknown>).length !== length) {
+    throw new QueryError(`Invalid cursor: ${String(cursor)}`);
+  }
+
+  return (values as Array<unknown>).map((value) => {
+    const restored = restore(value);
+
+    if (isUndefined(restored)) {
+      throw new QueryError(`Invalid cursor: ${String(cursor)}`);
+    }
+
+    return restored;
+  });
+}
+
 /**
  * Represents the internal state of a SELECT query, holding the settings and clauses used to build the SQL query.
  *
@@ -76,24 +404,41 @@ export interface Pagination<R> {
  */
 type State = {
   /**
-   * The table to query.
+   * Defines `WITH` clauses (common table expressions). Each entry has a `name`, optional `columns`,
+   * the CTE `query` and the `recursive` query combined with it using `UNION ALL`, if any.
+   */
+  ctes: Array<{
+    name: string;
+    columns: Array<string>;
+    query: Select;
+    recursive: Select | undefined;
+  }>;
+
+  /**
+   * The table to query, or a derived table.
    */
-  table: string | undefined;
+  table: string | Derived | undefined;
 
   /**
    * The columns to select. Can be an array of column names or `*` for all columns.
    */
-  columns: Array<string> | '*';
+  columns: Array<string | Expr | WindowFunction> | '*';
 
   /**
-   * Sorting instructions for the query, each entry contains a `column` name and a `type` (e.g., 'ASC' or 'DESC').
+   * Sorting instructions for the query, each entry contains a `column` and a `type` (e.g., 'ASC' or 'DESC').
+   * Entries may also define where `nulls` are sorted, and the `values` of a raw expression.
    */
-  order: Array<{ column: string; type: string }>;
+  order: Array<{
+    column: string | number | Expr | WindowFunction | symbol;
+    type: string | undefined;
+    nulls?: string;
+    values?: Array<string | number>;
+  }>;
 
   /**
    * Grouping columns for aggregate functions (e.g., `column1`).
    */
-  group: Array<string>;
+  group: Array<string | Expr>;
 
   /**
    * Whether to apply the `DISTINCT` keyword to the query (default is `false`).
@@ -106,12 +451,15 @@ type State = {
   limit: number | undefined;
 
   /**
-   * Defines `JOIN` clauses. Each entry contains a `table`, `type` (e.g., `INNER`, `LEFT`), and a `condition`.
+   * Defines `JOIN` clauses. Each entry contains a `table`, `type` (e.g., `INNER`, `LEFT`), and a `condition`,
+   * which is either a `Condition`, the `USING` columns, or `undefined` for `CROSS` and `NATURAL` joins.
+   * `lateral` marks derived tables joined with the `LATERAL` keyword.
    */
   joins: Array<{
-    table: string;
+    table: string | Derived;
     type: string;
-    condition: Condition;
+    condition: Condition | Using | undefined;
+    lateral: boolean;
   }>;
 
   /**
@@ -125,14 +473,28 @@ type State = {
   having: Condition | undefined;
 
   /**
-   * Defines `UNION` or `UNION ALL` clauses to combine multiple queries. Each entry has a `query` and an `all` flag.
+   * Defines named `WINDOW` clauses. Each entry has a `name` and a `window` specification.
+   */
+  windows: Array<{ name: string; window: Window }>;
+
+  /**
+   * Defines set operations (`UNION`, `INTERSECT`, `EXCEPT`) to combine multiple queries.
+   * Each entry has a `query`, an `operator` and an `all` flag.
    */
-  unions: Array<{ query: string; all: boolean }>;
+  sets: Array<{ query: Select; operator: string; all: boolean }>;
 
   /**
    * The offset for paginating results (skipping a number of rows).
    */
   offset: number | undefined;
+
+  /**
+   * The row locking clause, if any. Contains the lock `mode` (e.g., `UPDATE`, `SHARE`),
+   * the `tables` to lock using `OF`, and the `option` for locked rows (`NOWAIT` or `SKIP LOCKED`).
+   */
+  lock:
+    | { mode: string; tables: Array<string>; option: string | undefined }
+    | undefined;
 };
 
 /**
@@ -184,6 +546,7 @@ export class Select extends Query<Rows> {
   /**
    * The internal state object that tracks the settings and clauses for building the SELECT query.
    *
+   * @property `ctes` Defines `WITH` clauses.
    * @property `table` The table to query.
    * @property `columns` The columns to select.
    * @property `order` Sorting instructions for the query.
@@ -193,10 +556,13 @@ export class Select extends Query<Rows> {
    * @property `joins` Defines `JOIN` clauses.
    * @property `where` The `WHERE` clause condition for filtering results.
    * @property `having` The `HAVING` clause condition for filtering results after grouping.
-   * @property `unions` Defines `UNION` or `UNION ALL` clauses to combine multiple queries.
+   * @property `windows` Defines named `WINDOW` clauses.
+   * @property `sets` Defines `UNION`, `INTERSECT` or `EXCEPT` clauses to combine multiple queries.
    * @property `offset` The offset for paginating results.
+   * @property `lock` The row locking clause.
    */
   private state: State = {
+    ctes: new Array(),
     table: undefined,
     columns: '*',
     order: new Array(),
@@ -206,19 +572,28 @@ export class Select extends Query<Rows> {
     joins: new Array(),
     where: undefined,
     having: undefined,
-    unions: new Array(),
+    windows: new Array(),
+    sets: new Array(),
     offset: undefined,
+    lock: undefined,
   };
 
+  /**
+   * The database server version declared with `version()`, used to check the supported features.
+   */
+  private server: string | undefined;
+
   /**
    * Resets the `Select` query instance to its initial state.
    *
    * This method clears all query settings, including the table, columns, filters, ordering, joins, etc.,
    * allowing you to start building a fresh query.
+   * The declared server version is kept, as it describes the database and not the query.
    *
    * @returns The `Select` query instance (`this`) to allow method chaining.
    */
   public reset(): this {
+    this.state.ctes = new Array();
     this.state.table = undefined;
     this.state.columns = '*';
     this.state.order = new Array();
@@ -227,8 +602,10 @@ export class Select extends Query<Rows> {
     this.state.limit = undefined;
     this.state.joins = new Array();
     this.state.where = undefined;
-    this.state.unions = new Array();
+    this.state.sets = new Array();
     this.state.having = undefined;
+    this.state.windows = new Array();
+    this.state.lock = undefined;
 
     // inherted from Query
     this.values = new Array();
@@ -238,50 +615,265 @@ export class Select extends Query<Rows> {
   }
 
   /**
-   * Builds the final SQL `SELECT` query string and returns it, with an option to include or exclude the semicolon.
+   * Creates a deep copy of the `Select` query, chaining on the copy does not affect the original.
+   * Useful to derive several queries (e.g., a count, a page and an export) from a base query.
+   *
+   * @returns A new `Select` instance with the same clauses, conditions and values.
+   */
+  public clone(): Select {
+    const select = new Select(this.connection);
+    const state = this.state;
+
+    const derive = (source: string | Derived): string | Derived => {
+      if (isStr(source)) return source;
+      const derived = source as Derived;
+      return { query: derived.query.clone(), alias: derived.alias };
+    };
+
+    select.state = {
+      ctes: state.ctes.map((cte) => ({
+        name: cte.name,
+        columns: [...cte.columns],
+        query: cte.query.clone(),
+        recursive: cte.recursive ? cte.recursive.clone() : undefined,
+      })),
+      table: isUndefined(state.table) ? undefined : derive(state.table),
+      columns: state.columns === '*' ? '*' : [...state.columns],
+      order: state.order.map((o) => ({ ...o })),
+      group: [...state.group],
+      distinct: state.distinct,
+      limit: state.limit,
+      joins: state.joins.map((join) => ({
+        table: derive(join.table),
+        type: join.type,
+        condition:
+          join.condition instanceof Condition
+            ? join.condition.clone(select)
+            : join.condition,
+        lateral: join.lateral,
+      })),
+      where: state.where ? state.where.clone(select) : undefined,
+      having: state.having ? state.having.clone(select) : undefined,
+      windows: state.windows.map((w) => ({
+        name: w.name,
+        window: w.window.clone(),
+      })),
+      sets: state.sets.map((set) => ({
+        query: set.query.clone(),
+        operator: set.operator,
+        all: set.all,
+      })),
+      offset: state.offset,
+      lock: state.lock
+        ? { ...state.lock, tables: [...state.lock.tables] }
+        : undefined,
+    };
+
+    select.server = this.server;
+
+    // inherited from Query
+    select.values = [...this.values];
+    select.query = this.query;
+
+    return select;
+  }
+
+  /**
+   * Declares the database server version, used to check the features supported by the server.
+   *
+   * @param version The server version (e.g., `8.0.31`, `10.6.12-MariaDB`).
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the version is invalid.
+   *
+   * @note MySQL supports `INTERSECT` and `EXCEPT` starting from version 8.0.31, and `LATERAL` joins starting from 8.0.14,
+   * the builder cannot detect the server version, so it must be declared before these can be built for MySQL.
+   */
+  public version(version: string): this {
+    if (!isStr(version) || !/^\d+(\.\d+){0,2}(-\S+)?$/.test(version)) {
+      throw new QueryError(`Invalid server version: ${String(version)}`);
+    }
+
+    this.server = version;
+    return this;
+  }
+
+  /**
+   * Creates a subquery on the same connection, with the same declared server version.
+   *
+   * @returns A new `Select` instance.
+   */
+  private child(): Select {
+    const select = new Select(this.connection);
+    select.server = this.server;
+    return select;
+  }
+
+  /**
+   * Compiles the final SQL `SELECT` query string and its values, without mutating the query.
+   * The values of the query are collected in the order their placeholders appear.
    *
    * @param subquery Whether to include or exclude the semicolon in the final result.
-   * @returns The constructed SQL `SELECT` query string.
+   * Subqueries keep their `?` placeholders, so they can be compiled as part of the outer query.
+   * @returns The immutable compiled `SELECT` query and its values.
    * @throws `QueryError` if the table name is invalid or missing.
    */
-  public build(subquery: boolean = false): string {
-    if (!isFullStr(this.state.table)) {
+  public compile(subquery: boolean = false): Compiled {
+    if (!(isFullStr(this.state.table) || isObj(this.state.table))) {
       throw new QueryError(`Invalid SELECT table: ${String(this.state.table)}`);
     }
 
     subquery = isBool(subquery) ? subquery : false;
 
+    const values = new Array();
+
     const columns = Array.isArray(this.state.columns)
-      ? this.state.columns.join(', ')
+      ? this.state.columns
+          .map((c) =>
+            c instanceof WindowFunction
+              ? c.build(this.connection)
+              : quote(c, this.connection)
+          )
+          .join(', ')
       : this.state.columns;
 
     const distinct = this.state.distinct ? 'DISTINCT ' : '';
-    let statement = `SELECT ${distinct}${columns} FROM ${this.state.table}`;
+    let statement = `SELECT ${distinct}${columns}`;
+    let prefix = '';
+
+    if (this.state.ctes.length > 0) {
+      const recursive = this.state.ctes.some((cte) => cte.recursive);
+      const ctes = this.state.ctes
+        .map((cte) => {
+          const name = quote(cte.name, this.connection);
+          const columns =
+            cte.columns.length > 0
+              ? ` (${cte.columns.map((c) => quote(c, this.connection)).join(', ')})`
+              : '';
+
+          const compiled = cte.query.compile(true);
+          let query = compiled.sql;
+          values.push(...compiled.values);
+
+          if (cte.recursive) {
+            const recursion = cte.recursive.compile(true);
+            query += ` UNION ALL ${recursion.sql}`;
+            values.push(...recursion.values);
+          }
+
+          return `${name}${columns} AS (${query})`;
+        })
+        .join(', ');
+
+      prefix = `WITH ${recursive ? 'RECURSIVE ' : ''}${ctes} `;
+    }
+
+    statement += ` FROM ${this.source(this.state.table, values)}`;
 
     if (this.state.joins.length > 0) {
       const joins = this.state.joins
         .map((join) => {
-          return `${join.type} JOIN ${join.table} ON ${join.condition.build()}`;
+          const driver = this.connection.driver;
+
+          if (isSQLite(driver) && ['RIGHT', 'FULL OUTER'].includes(join.type)) {
+            throw new QueryError(
+              `${join.type} JOIN is not supported by SQLite, use leftJoin() with the tables swapped`
+            );
+          }
+
+          if (isSQLite(driver) && join.lateral) {
+            throw new QueryError(
+              'LATERAL JOIN is not supported by SQLite, use a correlated subquery instead'
+            );
+          }
+
+          if (isMySQL(driver) && join.lateral) {
+            if (isDefined(this.server) && /mariadb/i.test(this.server)) {
+              throw new QueryError(
+                'LATERAL JOIN is not supported by MariaDB, use a correlated subquery instead'
+              );
+            }
+
+            if (!supports(this.server, MYSQL_LATERAL)) {
+              throw new QueryError(
+                'LATERAL JOIN requires MySQL 8.0.14 or later, declare the server version with version()'
+              );
+            }
+          }
+
+          if (isMySQL(driver) && join.type === 'FULL OUTER') {
+            throw new QueryError(
+              'FULL OUTER JOIN is not supported by MySQL, use a UNION of leftJoin() and rightJoin()'
+            );
+          }
+
+          const table = this.source(join.table, values);
+
+          if (join.lateral) {
+            if (join.condition instanceof Condition) {
+              const condition = join.condition.compile(this.connection);
+              values.push(...condition.values);
+              return `${join.type} JOIN LATERAL ${table} ON ${condition.sql}`;
+            }
+
+            return `${join.type} JOIN LATERAL ${table} ON TRUE`;
+          }
+
+          if (join.condition instanceof Using) {
+            const columns = join.condition.columns
+              .map((column) => quote(column, this.connection))
+              .join(', ');
+
+            return `${join.type} JOIN ${table} USING (${columns})`;
+          }
+
+          if (join.condition instanceof Condition) {
+            const condition = join.condition.compile(this.connection);
+            values.push(...condition.values);
+            return `${join.type} JOIN ${table} ON ${condition.sql}`;
+          }
+
+          return `${join.type} JOIN ${table}`;
         })
         .join(' ');
       statement += ` ${joins}`;
     }
 
     if (this.state.where) {
-      statement += ` WHERE ${this.state.where.build()}`;
+      const where = this.state.where.compile(this.connection);
+      values.push(...where.values);
+      statement += ` WHERE ${where.sql}`;
     }
 
     if (this.state.group.length > 0) {
-      statement += ` GROUP BY ${this.state.group.join(', ')}`;
+      const group = this.state.group
+        .map((column) => quote(column, this.connection))
+        .join(', ');
+      statement += ` GROUP BY ${group}`;
     }
 
     if (this.state.having) {
-      statement += ` HAVING ${this.state.having.build()}`;
+      const having = this.state.having.compile(this.connection);
+      values.push(...having.values);
+      statement += ` HAVING ${having.sql}`;
+    }
+
+    if (this.state.windows.length > 0) {
+      const windows = this.state.windows
+        .map((w) => {
+          const name = quote(w.name, this.connection);
+          return `${name} AS (${w.window.build(this.connection)})`;
+        })
+        .join(', ');
+      statement += ` WINDOW ${windows}`;
+    }
+
+    if (this.state.sets.length > 0) {
+      statement = this.compound(statement, values);
     }
 
     if (this.state.order && this.state.order.length > 0) {
       const order = this.state.order
-        .map((o) => `${o.column} ${o.type}`)
+        .map((o) => this.sort(o, values))
         .join(', ');
       statement += ` ORDER BY ${order}`;
     }
@@ -294,13 +886,58 @@ export class Select extends Query<Rows> {
       statement += ` OFFSET ${this.state.offset}`;
     }
 
-    if (this.state.unions.length > 0) {
-      statement += ` ${this.state.unions
-        .map((union) => `${union.all ? 'UNION ALL' : 'UNION'} ${union.query}`)
-        .join(' ')}`;
+    if (isDefined(this.state.lock)) {
+      const driver = this.connection.driver;
+      const lock = this.state.lock;
+
+      if (isSQLite(driver)) {
+        throw new QueryError(
+          `FOR ${lock.mode} is not supported by SQLite, transactions lock the whole database`
+        );
+      }
+
+      if (isMySQL(driver) && lock.mode === 'NO KEY UPDATE') {
+        throw new QueryError(
+          'FOR NO KEY UPDATE is not supported by MySQL, use forUpdate()'
+        );
+      }
+
+      if (this.state.sets.length > 0) {
+        const operator = this.state.sets[0].operator;
+        throw new QueryError(
+          `FOR ${lock.mode} cannot be used with ${operator}`
+        );
+      }
+
+      statement += ` FOR ${lock.mode}`;
+
+      if (lock.tables.length > 0) {
+        const tables = lock.tables
+          .map((table) => quote(table, this.connection))
+          .join(', ');
+        statement += ` OF ${tables}`;
+      }
+
+      if (isDefined(lock.option)) statement += ` ${lock.option}`;
     }
 
-    return subquery ? statement : statement.concat(';');
+    statement = prefix.concat(statement);
+
+    return this.freeze(
+      subquery ? statement : format(statement.concat(';'), this.connection),
+      values
+    );
+  }
+
+  /**
+   * Builds the final SQL `SELECT` query string and returns it, with an option to include or exclude the semicolon.
+   *
+   * @param subquery Whether to include or exclude the semicolon in the final result.
+   * @returns The constructed SQL `SELECT` query string.
+   * @throws `QueryError` if the table name is invalid or missing.
+   */
+  public build(subquery: boolean = false): string {
+    return this.compile(subquery).sql;
   }
 
   /**
@@ -382,398 +1019,1879 @@ export class Select extends Query<Rows> {
   }
 
   /**
-   * Specifies the columns to retrieve from the table.
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause.
    *
-   * @param columns The columns to select from the table.
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if a column name is invalid.
-   *
-   * @notes
-   * - If no columns are specified, all columns (`*`) are selected by default.
-   * - It is also possible to provide aggregate functions and column aliases (e.g., `COUNT(*) AS count`, `MAX()`) in the column list.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
    */
-  public col(...columns: Array<string>): this {
-    columns.forEach((column) => {
-      if (!isFullStr(column)) {
-        throw new QueryError(`Invalid SELECT column: ${String(column)}`);
-      }
-    });
+  public group(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
+    }
 
-    this.state.columns = columns;
+    this.state.where.group(callback);
     return this;
   }
 
   /**
-   * Specifies the table to select data from.
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
    *
-   * @param name The name of the table to select data from.
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the table name is invalid.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
    */
-  public from(name: string): this {
-    if (!isFullStr(name)) {
-      throw new QueryError(`Invalid SELECT table: ${String(name)}`);
+  public andGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
     }
 
-    this.state.table = name;
+    this.state.where.andGroup(callback);
     return this;
   }
 
   /**
-   * Adds the `DISTINCT` keyword to the query, ensuring that the results are unique.
-   * This eliminates duplicate rows from the result set.
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
    *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
    * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
    */
-  public distinct(): this {
-    this.state.distinct = true;
-    return this;
-  }
-
-  /**
-   * Adds an `OFFSET` clause to the query, This is commonly used for pagination,
-   * where you want to skip a certain number of rows and start from a specific point.
-   *
-   * @param value The number of rows to skip (must be a positive integer, including 0).
-   * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the value is not a positive integer.
-   */
-  public offset(value: number): this {
-    if (!isInt(value) || value < 0) {
-      throw new QueryError(`Invalid OFFSET value: ${String(value)}`);
+  public orGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
     }
 
-    this.state.offset = value;
+    this.state.where.orGroup(callback);
     return this;
   }
 
   /**
-   * Adds a `LIMIT` clause to the query, restricting the number of rows returned.
+   * Adds a negated group of conditions wrapped in parentheses to the `WHERE` clause (e.g., `NOT (a = ? OR b = ?)`).
    *
-   * @param value The maximum number of rows to return (must be a non-negative integer, including 0).
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the value is not a non-negative integer.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
    */
-  public limit(value: number): this {
-    if (!isInt(value) || value < 0) {
-      throw new QueryError(`Invalid LIMIT value: ${String(value)}`);
+  public notGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
     }
 
-    this.state.limit = value;
+    this.state.where.notGroup(callback);
     return this;
   }
 
   /**
-   * Adds an `INNER JOIN` clause to the query.
+   * Adds a `WITH` clause (common table expression) to the query.
+   * The CTE name can then be used as a table in `from()` and `join()`.
    *
-   * @param table The name of the table to join with.
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+   * @param name The name of the common table expression.
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the CTE query.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the table name or the condition is invalid.
+   * @throws `QueryError` if the name is invalid or already used, or the `subquery` is not a valid function.
    *
-   * @note You can chain multiple `join()` calls to join more than two tables in a single query result.
+   * @note You can chain multiple `with()` calls, each CTE can reference the ones defined before it.
    */
-  public join(table: string, condition: (col: Col, con: Con) => void): this {
-    if (!isFullStr(table)) {
-      throw new QueryError(`Invalid JOIN table: ${String(table)}`);
+  public with(name: string, subquery: (select: Select) => void): this {
+    if (!isFullStr(name)) {
+      throw new QueryError(`Invalid WITH name: ${String(name)}`);
     }
 
-    if (!isFunc(condition)) {
-      throw new QueryError(`Invalid JOIN condition: ${String(condition)}`);
+    if (this.state.ctes.some((cte) => cte.name === name)) {
+      throw new QueryError(`Duplicate WITH name: ${name}`);
     }
 
-    const join = {
-      table,
-      condition: new Condition(this),
-      type: 'INNER',
-    };
+    if (!isFunc(subquery)) {
+      throw new QueryError(`Invalid WITH subquery: ${String(subquery)}`);
+    }
 
-    condition(join.condition.col.bind(join.condition), join.condition);
+    const select = this.child();
+
+    subquery(select);
+
+    this.state.ctes.push({
+      name,
+      columns: new Array(),
+      query: select,
+      recursive: undefined,
+    });
 
-    this.state.joins.push(join);
     return this;
   }
 
   /**
-   * Adds a `LEFT JOIN` clause to the query.
+   * Adds a `WITH RECURSIVE` clause (recursive common table expression) to the query.
+   * The CTE name can then be used as a table in `from()` and `join()`.
    *
-   * @param table The name of the table to join with.
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+   * @param name The name of the common table expression.
+   * @param columns The columns of the common table expression.
+   * @param anchor A function that receives a `Select` instance as an argument, which you can use to build the anchor (non-recursive) query.
+   * @param recursive A function that receives a `Select` instance as an argument, which you can use to build the recursive query, referencing the CTE by its name.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the table name or the condition is invalid.
+   * @throws `QueryError` if the name is invalid or already used, or the columns or queries are invalid.
    *
-   * @note You can chain multiple `leftJoin()` calls to join more than two tables in a single query result.
+   * @notes
+   * - The anchor and recursive queries are combined using `UNION ALL`.
+   * - The `RECURSIVE` keyword applies to the whole `WITH` clause, so it can be mixed with `with()`.
    */
-  public leftJoin(
-    table: string,
-    condition: (col: Col, con: Con) => void
+  public withRecursive(
+    name: string,
+    columns: Array<string>,
+    anchor: (select: Select) => void,
+    recursive: (select: Select) => void
   ): this {
-    if (!isFullStr(table)) {
-      throw new QueryError(`Invalid JOIN table: ${String(table)}`);
+    if (!isFullStr(name)) {
+      throw new QueryError(`Invalid WITH RECURSIVE name: ${String(name)}`);
     }
 
-    if (!isFunc(condition)) {
-      throw new QueryError(`Invalid JOIN condition: ${String(condition)}`);
+    if (this.state.ctes.some((cte) => cte.name === name)) {
+      throw new QueryError(`Duplicate WITH name: ${name}`);
     }
 
-    const join = { table, condition: new Condition(this), type: 'LEFT' };
-
-    condition(join.condition.col.bind(join.condition), join.condition);
-
-    this.state.joins.push(join);
-    return this;
-  }
+    if (!isArrOfStr(columns) || !columns.every((c) => isFullStr(c))) {
+      throw new QueryError(
+        `Invalid WITH RECURSIVE columns: ${String(columns)}`
+      );
+    }
 
-  /**
-   * Adds a `RIGHT JOIN` clause to the query.
-   *
-   * @param table The name of the table to join with.
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
-   * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the table name or the condition is invalid.
-   *
-   * @note You can chain multiple `rightJoin()` calls to join more than two tables in a single query result.
-   */
-  public rightJoin(
-    table: string,
-    condition: (col: Col, con: Con) => void
-  ): this {
-    if (!isFullStr(table)) {
-      throw new QueryError(`Invalid JOIN table: ${String(table)}`);
+    if (!isFunc(anchor)) {
+      throw new QueryError(`Invalid WITH RECURSIVE anchor: ${String(anchor)}`);
     }
 
-    if (!isFunc(condition)) {
-      throw new QueryError(`Invalid JOIN condition: ${String(condition)}`);
+    if (!isFunc(recursive)) {
+      throw new QueryError(
+        `Invalid WITH RECURSIVE subquery: ${String(recursive)}`
+      );
     }
 
-    const join = {
-      table,
-      condition: new Condition(this),
-      type: 'RIGHT',
-    };
+    const query = this.child();
+    const select = this.child();
 
-    condition(join.condition.col.bind(join.condition), join.condition);
+    anchor(query);
+    recursive(select);
+
+    this.state.ctes.push({ name, columns, query, recursive: select });
 
-    this.state.joins.push(join);
     return this;
   }
 
   /**
-   * Adds a `GROUP BY` clause to the query.
+   * Specifies the columns to retrieve from the table.
    *
-   * @param columns The columns to group by.
+   * @param columns The columns to select from the table.
    * @returns The `Select` query instance (`this`) to allow method chaining.
    * @throws `QueryError` if a column name is invalid.
+   *
+   * @notes
+   * - If no columns are specified, all columns (`*`) are selected by default.
+   * - It is also possible to provide aggregate functions and column aliases (e.g., `COUNT(*) AS count`, `MAX()`) in the column list.
+   * - Column names and aliases are quoted based on your driver, use `expr()` for expressions that must be used as is.
+   * - Window functions are supported as well (e.g., `rowNumber().over((w) => w.orderBy('score', DESC)).as('rank')`).
    */
-  public groupBy(...columns: Array<string>): this {
+  public col(...columns: Array<string | Expr | WindowFunction>): this {
     columns.forEach((column) => {
-      if (!isFullStr(column)) {
-        throw new QueryError(`Invalid GROUP BY column: ${String(column)}`);
+      if (!(
+        column instanceof Expr ||
+        column instanceof WindowFunction ||
+        isFullStr(column)
+      )) {
+        throw new QueryError(`Invalid SELECT column: ${String(column)}`);
       }
     });
 
-    this.state.group.push(...columns);
+    this.state.columns = columns;
     return this;
   }
 
   /**
-   * Adds an `ORDER BY` clause to the query.
+   * Specifies the table to select data from.
    *
-   * @param column The column to order by.
-   * @param type The type of ordering (`ASC` for ascending or `DESC` for descending).
+   * @param name The name of the table to select data from.
    * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the column name or the order type is invalid.
+   * @throws `QueryError` if the table name is invalid.
    */
-  public orderBy(column: string, type: typeof ASC | typeof DESC = ASC): this {
-    if (!isFullStr(column)) {
-      throw new QueryError(`Invalid ORDER BY column: ${String(column)}`);
+  public from(name: string): this;
+
+  /**
+   * Specifies a derived table to select data from.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery is not a function or the alias is invalid.
+   * @note The subquery values come before the values of the outer query.
+   */
+  public from(subquery: (select: Select) => void, alias: string): this;
+
+  public from(name: string | ((select: Select) => void), alias?: string): this {
+    if (isFunc(name)) {
+      const subquery = name as (select: Select) => void;
+      this.state.table = this.derive('FROM', subquery, alias);
+      return this;
     }
 
-    if (![ASC, DESC].includes(type)) {
-      throw new QueryError(`Invalid ORDER BY type: ${String(type)}`);
+    if (!isFullStr(name)) {
+      throw new QueryError(`Invalid SELECT table: ${String(name)}`);
     }
 
-    this.state.order.push({ column, type: type.description as any });
+    this.state.table = name as string;
     return this;
   }
 
   /**
-   * Adds a `WHERE` clause to the query.
+   * Creates a derived table from the given subquery and alias.
    *
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
-   * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the condition is not a function.
+   * @param clause The clause using the derived table (e.g., `FROM`, `JOIN`), used in error messages.
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @returns The derived table.
+   * @throws `QueryError` if the subquery is not a function or the alias is invalid.
    */
-  public where(condition: (col: Col, con: Con) => void): this {
-    if (!isFunc(condition)) {
-      throw new QueryError(`Invalid SELECT condition: ${String(condition)}`);
+  private derive(
+    clause: string,
+    subquery: (select: Select) => void,
+    alias: string
+  ): Derived {
+    if (!isFunc(subquery)) {
+      throw new QueryError(`Invalid ${clause} subquery: ${String(subquery)}`);
     }
 
-    if (isUndefined(this.state.where)) {
-      this.state.where = new Condition(this);
+    if (!isFullStr(alias)) {
+      throw new QueryError(`Invalid ${clause} alias: ${String(alias)}`);
     }
 
-    condition(this.state.where.col.bind(this.state.where), this.state.where);
-    return this;
+    const select = this.child();
+
+    subquery(select);
+
+    return { query: select, alias };
   }
 
   /**
-   * Adds a `HAVING` condition to the query, typically used to filter groups after `GROUP BY` has been applied.
-   * This allows you to add conditions to aggregated results, which are not possible with the `WHERE` clause.
+   * Renders the given table or derived table, collecting the derived table values.
    *
-   * @param condition The condition to apply in the `HAVING` clause.
-   * @returns The `Select` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the condition is not a valid string.
+   * @param source The table name or derived table.
+   * @param values The array collecting the query values.
+   * @returns The quoted table name, or the derived table subquery followed by its alias.
    */
-  public having(condition: (col: Col, con: Con) => void): this {
-    if (!isFunc(condition)) {
-      throw new QueryError(`Invalid HAVING condition: ${String(condition)}`);
+  private source(source: string | Derived, values: Array<unknown>): string {
+    if (isStr(source)) return quote(source as string, this.connection);
+
+    const derived = source as Derived;
+    const query = derived.query.compile(true);
+    values.push(...query.values);
+
+    return `(${query.sql}) AS ${quote(derived.alias, this.connection)}`;
+  }
+
+  /**
+   * Combines the given statement with the set operations, collecting the operand values.
+   *
+   * @param statement The statement of the first operand.
+   * @param values The array collecting the query values.
+   * @returns The compound statement, set operations are applied from left to right.
+   * @throws `QueryError` if a set operation is not supported by the driver or the declared server version.
+   *
+   * @note SQLite does not allow parentheses around operands, so operands with their own `ORDER BY`,
+   * `LIMIT`, `OFFSET` or set operations are selected from as a subquery instead.
+   */
+  private compound(statement: string, values: Array<unknown>): string {
+    const sqlite = isSQLite(this.connection.driver);
+    let previous: string;
+
+    return this.state.sets.reduce(
+      (compound, set) => {
+        const operator = set.all ? `${set.operator} ALL` : set.operator;
+
+        if (sqlite && set.all && set.operator !== 'UNION') {
+          throw new QueryError(
+            `${operator} is not supported by SQLite, use ${set.operator.toLowerCase()}()`
+          );
+        }
+
+        if (
+          isMySQL(this.connection.driver) &&
+          set.operator !== 'UNION' &&
+          !supports(this.server, MYSQL_SETS)
+        ) {
+          throw new QueryError(
+            `${set.operator} requires MySQL 8.0.31 or later, declare the server version with version()`
+          );
+        }
+
+        const query = set.query.compile(true);
+        values.push(...query.values);
+
+        if (sqlite) {
+          const state = set.query.state;
+          const bounded =
+            (state.order && state.order.length > 0) ||
+            isDefined(state.limit) ||
+            isDefined(state.offset) ||
+            state.sets.length > 0;
+
+          const operand = bounded ? `SELECT * FROM (${query.sql})` : query.sql;
+          return `${compound} ${operator} ${operand}`;
+        }
+
+        // INTERSECT binds tighter than UNION and EXCEPT, group when the operator changes
+        if (isDefined(previous) && previous !== set.operator) {
+          compound = `(${compound})`;
+        }
+
+        previous = set.operator;
+        return `${compound} ${operator} (${query.sql})`;
+      },
+      sqlite ? statement : `(${statement})`
+    );
+  }
+
+  /**
+   * Renders the given sorting instruction, collecting the raw expression values.
+   *
+   * @param order The sorting instruction.
+   * @param values The array collecting the query values.
+   * @returns The rendered sorting instruction.
+   * @throws `QueryError` if `NULLS FIRST` or `NULLS LAST` is used with a column position in MySQL.
+   *
+   * @note MySQL does not support `NULLS FIRST` and `NULLS LAST`, they are emulated by sorting on `column IS NULL` first.
+   */
+  private sort(order: State['order'][number], values: Array<unknown>): string {
+    const driver = this.connection.driver;
+
+    if (order.column === RANDOM) return isMySQL(driver) ? 'RAND()' : 'RANDOM()';
+
+    if (isDefined(order.values)) {
+      values.push(...order.values);
+      return (order.column as Expr).expression;
     }
 
-    if (isUndefined(this.state.having)) {
-      this.state.having = new Condition(this);
+    const column = isNum(order.column)
+      ? String(order.column)
+      : order.column instanceof WindowFunction
+        ? order.column.build(this.connection, false)
+        : quote(order.column as string | Expr, this.connection);
+
+    if (isUndefined(order.nulls)) return `${column} ${order.type}`;
+
+    if (!isMySQL(driver)) return `${column} ${order.type} ${order.nulls}`;
+
+    if (isNum(order.column)) {
+      throw new QueryError(
+        `${order.nulls} cannot be used with a column position in MySQL`
+      );
     }
 
-    condition(this.state.having.col.bind(this.state.having), this.state.having);
-    return this;
+    const nulls = order.nulls === 'NULLS FIRST' ? ' DESC' : '';
+    return `${column} IS NULL${nulls}, ${column} ${order.type}`;
   }
 
   /**
-   * Adds a `UNION` to the query, combining the current query's results with the results of a subquery.
-   * This removes any duplicate rows from the combined results.
+   * Adds a set operation to the query, combining the current query's results with the results of a subquery.
    *
+   * @param operator The set operator (`UNION`, `INTERSECT` or `EXCEPT`).
+   * @param all Whether to keep duplicate rows.
    * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
    * @returns The `Select` query instance (`this`) to allow method chaining.
    * @throws `QueryError` if the `subquery` is not a valid function.
-   *
-   * @note You can continue chaining `union()` calls as needed to combine even more subqueries into a single query.
    */
-  public union(subquery: (select: Select) => void): this {
+  private combine(
+    operator: string,
+    all: boolean,
+    subquery: (select: Select) => void
+  ): this {
     if (!isFunc(subquery)) {
-      throw new QueryError(`Invalid UNION subquery: ${String(subquery)}`);
+      const name = all ? `${operator} ALL` : operator;
+      throw new QueryError(`Invalid ${name} subquery: ${String(subquery)}`);
     }
 
-    const select = new Select(this.connection);
+    const select = this.child();
 
     subquery(select);
 
-    this.state.unions.push({
-      query: select.build(true),
-      all: false,
-    });
-
-    this.values.push(...select.get.values());
+    this.state.sets.push({ query: select, operator, all });
 
     return this;
   }
 
   /**
-   * Adds a `UNION ALL` to the query, combining the current query's results with the results of a subquery.
-   * This keeps all rows, including duplicates, in the combined results.
+   * Adds the `DISTINCT` keyword to the query, ensuring that the results are unique.
+   * This eliminates duplicate rows from the result set.
    *
-   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
-   * @returns The query builder instance (`this`) to allow method chaining.
-   * @throws `QueryError` if the `subquery` is not a valid function.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   */
+  public distinct(): this {
+    this.state.distinct = true;
+    return this;
+  }
+
+  /**
+   * Adds an `OFFSET` clause to the query, This is commonly used for pagination,
+   * where you want to skip a certain number of rows and start from a specific point.
    *
-   * @note You can continue chaining `unionAll()` calls as needed to combine even more subqueries into a single query.
+   * @param value The number of rows to skip (must be a positive integer, including 0).
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the value is not a positive integer.
    */
-  public unionAll(subquery: (select: Select) => void): this {
-    if (!isFunc(subquery)) {
-      throw new QueryError(`Invalid UNION ALL subquery: ${String(subquery)}`);
+  public offset(value: number): this {
+    if (!isInt(value) || value < 0) {
+      throw new QueryError(`Invalid OFFSET value: ${String(value)}`);
     }
 
-    const select = new Select(this.connection);
-
-    subquery(select);
-
-    this.state.unions.push({
-      query: select.build(true),
-      all: true,
-    });
+    this.state.offset = value;
+    return this;
+  }
 
-    this.values.push(...select.get.values());
+  /**
+   * Adds a `LIMIT` clause to the query, restricting the number of rows returned.
+   *
+   * @param value The maximum number of rows to return (must be a non-negative integer, including 0).
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the value is not a non-negative integer.
+   */
+  public limit(value: number): this {
+    if (!isInt(value) || value < 0) {
+      throw new QueryError(`Invalid LIMIT value: ${String(value)}`);
+    }
 
+    this.state.limit = value;
     return this;
   }
 
   /**
-   * Returns the total number of rows that match the current query conditions.
+   * Adds an `INNER JOIN` clause to the query.
    *
-   * This method allows you to easily get a count of items in the table based on any filters or conditions
-   * applied to the query.
+   * @param table The name of the table to join with.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name or the condition is invalid.
    *
-   * @returns A promise that resolves to the count of matching rows.
+   * @note You can chain multiple `join()` calls to join more than two tables in a single query result.
+   */
+  public join(
+    table: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  /**
+   * Adds an `INNER JOIN` clause with a derived table to the query.
    *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
    */
-  public count(): Promise<number> {
-    return new Promise<number>((resolve, reject) => {
-      if (!isFullStr(this.state.table)) {
-        throw new QueryError(
-          `Invalid SELECT table: ${String(this.state.table)}`
-        );
-      }
+  public join(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  public join(table: any, ...args: Array<any>): this {
+    return this.joinWith('INNER', table, args);
+  }
+
+  /**
+   * Adds a `LEFT JOIN` clause to the query.
+   *
+   * @param table The name of the table to join with.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name or the condition is invalid.
+   *
+   * @note You can chain multiple `leftJoin()` calls to join more than two tables in a single query result.
+   */
+  public leftJoin(
+    table: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
 
-      const columns = this.state.columns;
-      this.state.columns = ['COUNT(*) AS count'];
+  /**
+   * Adds a `LEFT JOIN` clause with a derived table to the query.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   */
+  public leftJoin(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
 
-      this.connection
-        .query(this.get.query(), this.get.values())
-        .then((r) => {
-          this.state.columns = columns;
-          resolve(r[0].count);
-        })
-        .catch((e) => {
-          this.state.columns = columns;
-          reject(e);
-        });
-    });
+  public leftJoin(table: any, ...args: Array<any>): this {
+    return this.joinWith('LEFT', table, args);
   }
 
   /**
-   * Paginates the query results and returns a specific page of items, along with pagination details.
-   *
-   * This method is useful for breaking down large result sets into smaller, paginated chunks.
+   * Adds a `RIGHT JOIN` clause to the query.
    *
-   * @param page page The page number to retrieve (starting from 1).
-   * @param items The number of items per page (default is 10).
-   * @returns A promise that resolves to an object
+   * @param table The name of the table to join with.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name or the condition is invalid.
    *
-   * @notes
-   *   - Use `next` and `prev` to determine if you should show or hide the `Next` and `Previous` buttons in your UI.
-   *     - If `next` is `undefined`, hide the `Next` button (last page).
-   *     - If `prev` is `undefined`, hide the `Previous` button (first page).
-   *   - Use `total.pages` and `total.items` to show total pages and items to users.
-   *   - You can also use this method to implement infinite scrolling.
+   * @note You can chain multiple `rightJoin()` calls to join more than two tables in a single query result.
    */
-  public paginate(page: number, items: number = 10): Promise<Pagination<Row>> {
+  public rightJoin(
+    table: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  /**
+   * Adds a `RIGHT JOIN` clause with a derived table to the query.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   */
+  public rightJoin(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  public rightJoin(table: any, ...args: Array<any>): this {
+    return this.joinWith('RIGHT', table, args);
+  }
+
+  /**
+   * Adds a `FULL OUTER JOIN` clause to the query.
+   *
+   * @param table The name of the table to join with.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name or the condition is invalid.
+   *
+   * @note `FULL OUTER JOIN` is not supported by MySQL and SQLite, building the query throws for these drivers.
+   */
+  public fullJoin(
+    table: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  /**
+   * Adds a `FULL OUTER JOIN` clause with a derived table to the query.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or `using(...columns)`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   */
+  public fullJoin(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition: Condition | Using | ((col: Col, con: Con) => void)
+  ): this;
+
+  public fullJoin(table: any, ...args: Array<any>): this {
+    return this.joinWith('FULL OUTER', table, args);
+  }
+
+  /**
+   * Adds a `CROSS JOIN` clause to the query, combining each row with every row of the joined table.
+   *
+   * @param table The name of the table to join with.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name is invalid.
+   */
+  public crossJoin(table: string): this;
+
+  /**
+   * Adds a `CROSS JOIN` clause with a derived table to the query.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery or the alias is invalid.
+   */
+  public crossJoin(subquery: (select: Select) => void, alias: string): this;
+
+  public crossJoin(table: any, ...args: Array<any>): this {
+    return this.joinWith('CROSS', table, args, false);
+  }
+
+  /**
+   * Adds a `NATURAL JOIN` clause to the query, joining on all the columns with the same name in both tables.
+   *
+   * @param table The name of the table to join with.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table name is invalid.
+   */
+  public naturalJoin(table: string): this;
+
+  /**
+   * Adds a `NATURAL JOIN` clause with a derived table to the query.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery or the alias is invalid.
+   */
+  public naturalJoin(subquery: (select: Select) => void, alias: string): this;
+
+  public naturalJoin(table: any, ...args: Array<any>): this {
+    return this.joinWith('NATURAL', table, args, false);
+  }
+
+  /**
+   * Adds an `INNER JOIN LATERAL` clause to the query, the subquery can reference the columns of the preceding tables.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition An optional join condition, the join is made `ON TRUE` if omitted.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   * @note `LATERAL` joins require PostgreSQL or MySQL 8.0.14+, building the query throws for SQLite and MariaDB,
+   * and for MySQL unless the server version is declared with `version()`.
+   */
+  public lateralJoin(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition?: Condition | ((col: Col, con: Con) => void)
+  ): this {
+    return this.lateralWith('INNER', subquery, alias, condition);
+  }
+
+  /**
+   * Adds a `LEFT JOIN LATERAL` clause to the query, the subquery can reference the columns of the preceding tables.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition An optional join condition, the join is made `ON TRUE` if omitted.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   * @note `LATERAL` joins require PostgreSQL or MySQL 8.0.14+, building the query throws for SQLite and MariaDB,
+   * and for MySQL unless the server version is declared with `version()`.
+   */
+  public leftLateralJoin(
+    subquery: (select: Select) => void,
+    alias: string,
+    condition?: Condition | ((col: Col, con: Con) => void)
+  ): this {
+    return this.lateralWith('LEFT', subquery, alias, condition);
+  }
+
+  /**
+   * Adds a `JOIN LATERAL` clause of the given type to the query.
+   *
+   * @param type The type of the join (e.g., `INNER`, `LEFT`).
+   * @param subquery A function to build the derived table.
+   * @param alias The alias of the derived table.
+   * @param condition The optional join condition.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the subquery, the alias or the condition is invalid.
+   */
+  private lateralWith(
+    type: string,
+    subquery: (select: Select) => void,
+    alias: string,
+    condition?: Condition | ((col: Col, con: Con) => void)
+  ): this {
+    if (
+      isDefined(condition) &&
+      !(isFunc(condition) || condition instanceof Condition)
+    ) {
+      throw new QueryError(
+        `Invalid LATERAL JOIN condition: ${String(condition)}`
+      );
+    }
+
+    const join = {
+      table: this.derive('LATERAL JOIN', subquery, alias),
+      condition: undefined,
+      lateral: true,
+      type,
+    };
+
+    if (isDefined(condition)) {
+      join.condition = new Condition(this);
+
+      if (condition instanceof Condition) join.condition.include(condition);
+      else condition(join.condition.col.bind(join.condition), join.condition);
+    }
+
+    this.state.joins.push(join);
+    return this;
+  }
+
+  /**
+   * Adds a `JOIN` clause of the given type to the query.
+   *
+   * @param type The type of the join (e.g., `INNER`, `LEFT`).
+   * @param table The name of the table to join with, or a function to build a derived table.
+   * @param args The join condition, preceded by the alias for derived tables.
+   * @param conditional Whether the join requires a condition (default is `true`).
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the table, the alias or the condition is invalid.
+   */
+  private joinWith(
+    type: string,
+    table: string | ((select: Select) => void),
+    args: Array<any>,
+    conditional: boolean = true
+  ): this {
+    const derived = isFunc(table);
+    const condition = derived ? args[1] : args[0];
+
+    if (!derived && !isFullStr(table)) {
+      throw new QueryError(`Invalid JOIN table: ${String(table)}`);
+    }
+
+    if (
+      conditional &&
+      !(
+        isFunc(condition) ||
+        condition instanceof Condition ||
+        condition instanceof Using
+      )
+    ) {
+      throw new QueryError(`Invalid JOIN condition: ${String(condition)}`);
+    }
+
+    const join = {
+      table: derived
+        ? this.derive('JOIN', table as (select: Select) => void, args[0])
+        : (table as string),
+      condition: undefined,
+      lateral: false,
+      type,
+    };
+
+    if (!conditional) {
+      this.state.joins.push(join);
+      return this;
+    }
+
+    if (condition instanceof Using) {
+      join.condition = condition;
+      this.state.joins.push(join);
+      return this;
+    }
+
+    join.condition = new Condition(this);
+
+    if (condition instanceof Condition) join.condition.include(condition);
+    else condition(join.condition.col.bind(join.condition), join.condition);
+
+    this.state.joins.push(join);
+    return this;
+  }
+
+  /**
+   * Adds a `GROUP BY` clause to the query.
+   *
+   * @param columns The columns to group by.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if a column name is invalid.
+   */
+  public groupBy(...columns: Array<string | Expr>): this {
+    columns.forEach((column) => {
+      if (!(column instanceof Expr || isFullStr(column))) {
+        throw new QueryError(`Invalid GROUP BY column: ${String(column)}`);
+      }
+    });
+
+    this.state.group.push(...columns);
+    return this;
+  }
+
+  /**
+   * Adds an `ORDER BY` clause to the query.
+   *
+   * @param column The column or select alias to order by, a column position (starting from 1), a window function, or `random()`.
+   * @param type The type of ordering (`ASC` for ascending or `DESC` for descending).
+   * @param nulls Where to sort `NULL` values (`NULLS_FIRST` or `NULLS_LAST`), the database default is used if omitted.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the column name, the order type or the nulls position is invalid.
+   *
+   * @note `NULLS FIRST` and `NULLS LAST` are emulated in MySQL by sorting on `column IS NULL` first.
+   */
+  public orderBy(
+    column: string | number | Expr | WindowFunction | symbol,
+    type: typeof ASC | typeof DESC = ASC,
+    nulls?: typeof NULLS_FIRST | typeof NULLS_LAST
+  ): this {
+    if (column === RANDOM) {
+      this.state.order.push({ column, type: undefined });
+      return this;
+    }
+
+    if (!(
+      column instanceof Expr ||
+      column instanceof WindowFunction ||
+      isFullStr(column) ||
+      (isInt(column) && (column as number) > 0)
+    )) {
+      throw new QueryError(`Invalid ORDER BY column: ${String(column)}`);
+    }
+
+    if (![ASC, DESC].includes(type)) {
+      throw new QueryError(`Invalid ORDER BY type: ${String(type)}`);
+    }
+
+    if (isDefined(nulls) && ![NULLS_FIRST, NULLS_LAST].includes(nulls)) {
+      throw new QueryError(`Invalid ORDER BY nulls: ${String(nulls)}`);
+    }
+
+    this.state.order.push({
+      column,
+      type: type.description,
+      nulls: isDefined(nulls) ? nulls.description : undefined,
+    });
+
+    return this;
+  }
+
+  /**
+   * Adds a raw expression to the `ORDER BY` clause of the query.
+   *
+   * @param expression The raw SQL expression, including the ordering type (e.g., `CASE WHEN status = ? THEN 0 ELSE 1 END ASC`).
+   * @param values The values of the expression placeholders.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the expression or a value is invalid.
+   */
+  public orderByRaw(
+    expression: string,
+    ...values: Array<string | number>
+  ): this {
+    if (!isFullStr(expression)) {
+      throw new QueryError(
+        `Invalid ORDER BY expression: ${String(expression)}`
+      );
+    }
+
+    values.forEach((value) => {
+      if (!(isFullStr(value) || isNum(value))) {
+        throw new QueryError(`Invalid ORDER BY value: ${String(value)}`);
+      }
+    });
+
+    this.state.order.push({
+      column: new Expr(expression),
+      type: undefined,
+      values,
+    });
+
+    return this;
+  }
+
+  /**
+   * Adds a `WHERE` clause to the query.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   */
+  public where(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
+      throw new QueryError(`Invalid SELECT condition: ${String(condition)}`);
+    }
+
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
+    }
+
+    if (condition instanceof Condition) {
+      this.state.where.include(condition);
+      return this;
+    }
+
+    if (isObj(condition)) {
+      this.state.where.filter(condition as Filters);
+      return this;
+    }
+
+    const callback = condition as (col: Col, con: Con) => void;
+
+    callback(this.state.where.col.bind(this.state.where), this.state.where);
+    return this;
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public andWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('AND', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public orWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('OR', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by the given logical operator if the clause already has a condition.
+   *
+   * @param operator The logical operator (`AND` or `OR`).
+   * @param condition A function to define the condition, a standalone `Condition`, or object-style filters.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   */
+  private append(
+    operator: 'AND' | 'OR',
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
+      throw new QueryError(`Invalid SELECT condition: ${String(condition)}`);
+    }
+
+    if (isUndefined(this.state.where)) {
+      this.state.where = new Condition(this);
+    }
+
+    this.state.where.append(operator, condition);
+    return this;
+  }
+
+  /**
+   * Adds a `HAVING` condition to the query, typically used to filter groups after `GROUP BY` has been applied.
+   * This allows you to add conditions to aggregated results, which are not possible with the `WHERE` clause.
+   *
+   * @param condition The condition to apply in the `HAVING` clause, a function or a standalone `Condition`.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function or a `Condition`.
+   */
+  public having(condition: Condition | ((col: Col, con: Con) => void)): this {
+    if (!(isFunc(condition) || condition instanceof Condition)) {
+      throw new QueryError(`Invalid HAVING condition: ${String(condition)}`);
+    }
+
+    if (isUndefined(this.state.having)) {
+      this.state.having = new Condition(this);
+    }
+
+    if (condition instanceof Condition) {
+      this.state.having.include(condition);
+      return this;
+    }
+
+    condition(this.state.having.col.bind(this.state.having), this.state.having);
+    return this;
+  }
+
+  /**
+   * Adds a named `WINDOW` definition to the query, which window functions can reference with `over(name)`.
+   *
+   * @param name The name of the window.
+   * @param definition A function that receives a `Window` instance as an argument, which you can use to define the window.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the name is invalid or already used, or the definition is not a valid function.
+   */
+  public window(name: string, definition: (window: Window) => void): this {
+    if (!isFullStr(name)) {
+      throw new QueryError(`Invalid WINDOW name: ${String(name)}`);
+    }
+
+    if (this.state.windows.some((w) => w.name === name)) {
+      throw new QueryError(`Duplicate WINDOW name: ${name}`);
+    }
+
+    if (!isFunc(definition)) {
+      throw new QueryError(`Invalid WINDOW definition: ${String(definition)}`);
+    }
+
+    const window = new Window();
+
+    definition(window);
+
+    this.state.windows.push({ name, window });
+    return this;
+  }
+
+  /**
+   * Adds a `UNION` to the query, combining the current query's results with the results of a subquery.
+   * This removes any duplicate rows from the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note You can continue chaining `union()` calls as needed to combine even more subqueries into a single query.
+   * @note `orderBy()`, `limit()` and `offset()` of the current query apply to the combined results.
+   */
+  public union(subquery: (select: Select) => void): this {
+    return this.combine('UNION', false, subquery);
+  }
+
+  /**
+   * Adds a `UNION ALL` to the query, combining the current query's results with the results of a subquery.
+   * This keeps all rows, including duplicates, in the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The query builder instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note You can continue chaining `unionAll()` calls as needed to combine even more subqueries into a single query.
+   * @note `orderBy()`, `limit()` and `offset()` of the current query apply to the combined results.
+   */
+  public unionAll(subquery: (select: Select) => void): this {
+    return this.combine('UNION', true, subquery);
+  }
+
+  /**
+   * Adds an `INTERSECT` to the query, keeping only the rows returned by both the current query and the subquery.
+   * This removes any duplicate rows from the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note Set operations are applied from left to right, in the order they are chained.
+   * @note MySQL supports `INTERSECT` starting from version 8.0.31.
+   */
+  public intersect(subquery: (select: Select) => void): this {
+    return this.combine('INTERSECT', false, subquery);
+  }
+
+  /**
+   * Adds an `INTERSECT ALL` to the query, keeping only the rows returned by both the current query and the subquery.
+   * This keeps duplicate rows in the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note `INTERSECT ALL` is not supported by SQLite.
+   */
+  public intersectAll(subquery: (select: Select) => void): this {
+    return this.combine('INTERSECT', true, subquery);
+  }
+
+  /**
+   * Adds an `EXCEPT` to the query, keeping only the rows of the current query that the subquery does not return.
+   * This removes any duplicate rows from the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note Set operations are applied from left to right, in the order they are chained.
+   * @note MySQL supports `EXCEPT` starting from version 8.0.31.
+   */
+  public except(subquery: (select: Select) => void): this {
+    return this.combine('EXCEPT', false, subquery);
+  }
+
+  /**
+   * Adds an `EXCEPT ALL` to the query, keeping only the rows of the current query that the subquery does not return.
+   * This keeps duplicate rows in the combined results.
+   *
+   * @param subquery A function that receives a `Select` instance as an argument, which you can use to build the subquery.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the `subquery` is not a valid function.
+   *
+   * @note `EXCEPT ALL` is not supported by SQLite.
+   */
+  public exceptAll(subquery: (select: Select) => void): this {
+    return this.combine('EXCEPT', true, subquery);
+  }
+
+  /**
+   * Adds a `FOR UPDATE` clause to the query, locking the selected rows until the end of the transaction.
+   *
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @note Locking clauses are not supported by SQLite, building the query throws for this driver.
+   */
+  public forUpdate(): this {
+    return this.lock('UPDATE');
+  }
+
+  /**
+   * Adds a `FOR SHARE` clause to the query, preventing other transactions from modifying the selected rows.
+   *
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @note Locking clauses are not supported by SQLite, building the query throws for this driver.
+   */
+  public forShare(): this {
+    return this.lock('SHARE');
+  }
+
+  /**
+   * Adds a `FOR NO KEY UPDATE` clause to the query, a weaker `FOR UPDATE` that does not block foreign key checks.
+   *
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @note `FOR NO KEY UPDATE` is only supported by PostgreSQL, building the query throws for other drivers.
+   */
+  public forNoKeyUpdate(): this {
+    return this.lock('NO KEY UPDATE');
+  }
+
+  /**
+   * Restricts the locking clause to the given tables using `OF`.
+   *
+   * @param tables The tables (or aliases) whose rows should be locked.
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if no locking clause is defined or a table name is invalid.
+   */
+  public of(...tables: Array<string>): this {
+    if (isUndefined(this.state.lock)) {
+      throw new QueryError('Missing locking clause: OF');
+    }
+
+    if (!isArrOfStr(tables) || !tables.every((t) => isFullStr(t))) {
+      throw new QueryError(`Invalid OF tables: ${String(tables)}`);
+    }
+
+    this.state.lock.tables.push(...tables);
+    return this;
+  }
+
+  /**
+   * Adds the `NOWAIT` option to the locking clause, failing immediately if a selected row is locked.
+   *
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if no locking clause is defined.
+   */
+  public noWait(): this {
+    if (isUndefined(this.state.lock)) {
+      throw new QueryError('Missing locking clause: NOWAIT');
+    }
+
+    this.state.lock.option = 'NOWAIT';
+    return this;
+  }
+
+  /**
+   * Adds the `SKIP LOCKED` option to the locking clause, skipping the rows locked by other transactions.
+   *
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if no locking clause is defined.
+   * @note Useful for queue workers, so each worker picks different rows.
+   */
+  public skipLocked(): this {
+    if (isUndefined(this.state.lock)) {
+      throw new QueryError('Missing locking clause: SKIP LOCKED');
+    }
+
+    this.state.lock.option = 'SKIP LOCKED';
+    return this;
+  }
+
+  /**
+   * Sets the locking clause mode, keeping the tables and the option already defined.
+   *
+   * @param mode The lock mode (e.g., `UPDATE`, `SHARE`).
+   * @returns The `Select` query instance (`this`) to allow method chaining.
+   */
+  private lock(mode: string): this {
+    if (isUndefined(this.state.lock)) {
+      this.state.lock = { mode, tables: new Array(), option: undefined };
+    } else this.state.lock.mode = mode;
+
+    return this;
+  }
+
+  /**
+   * Executes a variant of the query without permanently mutating its state.
+   *
+   * @param modify A function that reassigns the `state` properties of the variant.
+   * @param wrap A function that wraps the variant statement (e.g., inside `EXISTS`).
+   * @returns A promise that resolves with the rows of the variant query.
+   * @note The state is shallow copied and restored, so `modify` must reassign properties instead of mutating them.
+   */
+  private fetch(
+    modify: () => void,
+    wrap: (sql: string) => string = (sql) => sql
+  ): Promise<Rows> {
+    return new Promise((resolve, reject) => {
+      const state = { ...this.state };
+      let query: Compiled;
+
+      try {
+        modify();
+        query = this.compile(true);
+      } finally {
+        this.state = state;
+      }
+
+      const sql = format(wrap(query.sql).concat(';'), this.connection);
+
+      this.connection
+        .query(sql, [...query.values])
+        .then((rows: Rows) => resolve(rows))
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Executes the query with `LIMIT 1` and resolves with the first row.
+   *
+   * @returns A promise that resolves with the first row, or `undefined` if no row matches.
+   * @note The query state is left unchanged.
+   */
+  public first(): Promise<Row | undefined> {
+    return this.fetch(() => {
+      if (isUndefined(this.state.limit) || this.state.limit > 1) {
+        this.state.limit = 1;
+      }
+    }).then((rows) => rows[0]);
+  }
+
+  /**
+   * Executes the query and resolves with the only matching row.
+   *
+   * @returns A promise that resolves with the matching row.
+   * @throws `QueryError` if no row or more than one row matches.
+   * @note Only two rows are fetched at most, the query state is left unchanged.
+   */
+  public one(): Promise<Row> {
+    return this.fetch(() => {
+      if (isUndefined(this.state.limit) || this.state.limit > 2) {
+        this.state.limit = 2;
+      }
+    }).then((rows) => {
+      if (rows.length === 0) {
+        throw new QueryError('No row found, expected exactly one');
+      }
+
+      if (rows.length > 1) {
+        throw new QueryError('Multiple rows found, expected exactly one');
+      }
+
+      return rows[0];
+    });
+  }
+
+  /**
+   * Selects the given column of the first row and resolves with its value.
+   *
+   * @param column The column or expression to select.
+   * @returns A promise that resolves with the value, or `undefined` if no row matches.
+   * @throws `QueryError` if the column is invalid.
+   * @note The query state is left unchanged.
+   */
+  public value<T = unknown>(column: string | Expr): Promise<T | undefined> {
+    if (!(column instanceof Expr || isFullStr(column))) {
+      return Promise.reject(
+        new QueryError(`Invalid VALUE column: ${String(column)}`)
+      );
+    }
+
+    return this.project(column, () => {
+      if (isUndefined(this.state.limit) || this.state.limit > 1) {
+        this.state.limit = 1;
+      }
+    }).then((rows) => (rows[0] ? (Object.values(rows[0])[0] as T) : undefined));
+  }
+
+  /**
+   * Selects the given column and resolves with its values as a flat array.
+   *
+   * @param column The column or expression to select.
+   * @returns A promise that resolves with the values of the column.
+   * @throws `QueryError` if the column is invalid.
+   * @note The query state is left unchanged.
+   */
+  public pluck<T = unknown>(column: string | Expr): Promise<Array<T>> {
+    if (!(column instanceof Expr || isFullStr(column))) {
+      return Promise.reject(
+        new QueryError(`Invalid PLUCK column: ${String(column)}`)
+      );
+    }
+
+    return this.project(column).then((rows) =>
+      rows.map((row) => Object.values(row)[0] as T)
+    );
+  }
+
+  /**
+   * Executes a variant of the query selecting the given column only.
+   *
+   * @param column The column or expression to select.
+   * @param modify A function that reassigns other `state` properties of the variant.
+   * @returns A promise that resolves with the rows of the variant query.
+   * @note Every operand of a compound query must select the same number of columns,
+   * so compound queries are selected from as a derived table instead: `SELECT column FROM (...) AS t`,
+   * qualified columns are resolved to their last segment (e.g., `u.email` to `email`).
+   */
+  private project(
+    column: string | Expr,
+    modify: () => void = () => {}
+  ): Promise<Rows> {
+    const compound = this.state.sets.length > 0;
+
+    return this.fetch(
+      () => {
+        if (!compound) this.state.columns = [column];
+        modify();
+      },
+      (sql) => {
+        if (!compound) return sql;
+
+        // Columns of the derived table are no longer qualified by their tables
+        const target = quote(
+          isStr(column) ? (column as string).split('.').pop() : column,
+          this.connection
+        );
+        const alias = quote('t', this.connection);
+        return `SELECT ${target} FROM (${sql}) AS ${alias}`;
+      }
+    );
+  }
+
+  /**
+   * Checks whether any row matches the query, using `SELECT EXISTS(...)`.
+   *
+   * @returns A promise that resolves with `true` if at least one row matches, `false` otherwise.
+   * @note The query state is left unchanged.
+   */
+  public exists(): Promise<boolean> {
+    return this.fetch(
+      () => {},
+      (sql) => `SELECT EXISTS(${sql}) AS ${quote('exists', this.connection)}`
+    ).then((rows) => {
+      // PostgreSQL resolves with a boolean, MySQL and SQLite with 1 or 0
+      const exists = rows[0] ? Object.values(rows[0])[0] : false;
+      return exists === true || Number(exists) === 1;
+    });
+  }
+
+  /**
+   * Checks whether the query must be wrapped as a derived table to be aggregated.
+   *
+   * @returns `true` for grouped, distinct, limited and compound queries, where an aggregate
+   * function would not cover the rows the query returns.
+   */
+  private wrapped(): boolean {
+    const state = this.state;
+
+    return (
+      isDefined(state.limit) ||
+      isDefined(state.offset) ||
+      state.distinct ||
+      state.group.length > 0 ||
+      isDefined(state.having) ||
+      state.sets.length > 0
+    );
+  }
+
+  /**
+   * Executes an aggregate function on the given column and resolves with its result.
+   *
+   * @param name The aggregate function name (e.g., `SUM`, `AVG`).
+   * @param column The column or expression to aggregate.
+   * @param distinct Whether to aggregate distinct values only (default is `false`).
+   * @returns A promise that resolves with the result as returned by the driver, or `null` if there is no result.
+   * @note `ORDER BY` is dropped unless the query has a `LIMIT` or an `OFFSET`, locking clauses are always dropped.
+   * @note Grouped, distinct, limited and compound queries are wrapped as `SELECT SUM(column) FROM (...) AS t`,
+   * so the aggregate covers the rows the query returns, the column must be one of the selected columns.
+   * @note The query state is left unchanged.
+   */
+  private aggregate(
+    name: string,
+    column: string | Expr,
+    distinct: boolean = false
+  ): Promise<any> {
+    if (!(column instanceof Expr || isFullStr(column))) {
+      return Promise.reject(
+        new QueryError(`Invalid ${name} column: ${String(column)}`)
+      );
+    }
+
+    const wrapped = this.wrapped();
+    const paged = isDefined(this.state.limit) || isDefined(this.state.offset);
+
+    // The derived table columns are not qualified by the original tables
+    const target = quote(
+      wrapped && isStr(column) ? (column as string).split('.').pop() : column,
+      this.connection
+    );
+
+    const alias = quote(name.toLowerCase(), this.connection);
+    const fn = `${name}(${distinct ? 'DISTINCT ' : ''}${target}) AS ${alias}`;
+
+    return this.fetch(
+      () => {
+        // Locking clauses are not allowed with aggregate functions
+        this.state.lock = undefined;
+
+        // The order only matters when it decides which rows are kept
+        if (!paged) this.state.order = new Array();
+        if (!wrapped) this.state.columns = [new Expr(fn)];
+      },
+      (sql) => {
+        if (!wrapped) return sql;
+        return `SELECT ${fn} FROM (${sql}) AS ${quote('t', this.connection)}`;
+      }
+    ).then((rows) => {
+      const value = rows[0] ? Object.values(rows[0])[0] : null;
+      return isUndefined(value) ? null : value;
+    });
+  }
+
+  /**
+   * Resolves with the sum of the given column values.
+   *
+   * @param column The column or expression to sum.
+   * @returns A promise that resolves with the sum, or `null` if no row matches.
+   * @throws `QueryError` if the column is invalid.
+   */
+  public sum(column: string | Expr): Promise<number | null> {
+    return this.aggregate('SUM', column).then(numeric);
+  }
+
+  /**
+   * Resolves with the average of the given column values.
+   *
+   * @param column The column or expression to average.
+   * @returns A promise that resolves with the average, or `null` if no row matches.
+   * @throws `QueryError` if the column is invalid.
+   */
+  public avg(column: string | Expr): Promise<number | null> {
+    return this.aggregate('AVG', column).then(numeric);
+  }
+
+  /**
+   * Resolves with the minimum of the given column values.
+   *
+   * @param column The column or expression.
+   * @returns A promise that resolves with the minimum, or `null` if no row matches.
+   * @throws `QueryError` if the column is invalid.
+   * @note The result is returned as the driver resolves it, numeric strings (e.g., zip codes) are never coerced.
+   */
+  public min<T = number>(column: string | Expr): Promise<T | null> {
+    return this.aggregate('MIN', column);
+  }
+
+  /**
+   * Resolves with the maximum of the given column values.
+   *
+   * @param column The column or expression.
+   * @returns A promise that resolves with the maximum, or `null` if no row matches.
+   * @throws `QueryError` if the column is invalid.
+   * @note The result is returned as the driver resolves it, numeric strings (e.g., zip codes) are never coerced.
+   */
+  public max<T = number>(column: string | Expr): Promise<T | null> {
+    return this.aggregate('MAX', column);
+  }
+
+  /**
+   * Resolves with the number of distinct non-null values of the given column.
+   *
+   * @param column The column or expression.
+   * @returns A promise that resolves with the number of distinct values.
+   * @throws `QueryError` if the column is invalid.
+   */
+  public countDistinct(column: string | Expr): Promise<number> {
+    return this.aggregate('COUNT', column, true).then((count) =>
+      count === null ? 0 : numeric(count)
+    );
+  }
+
+  /**
+   * Returns the total number of rows that match the current query conditions.
+   *
+   * This method allows you to easily get a count of items in the table based on any filters or conditions
+   * applied to the query.
+   *
+   * Grouped, distinct, limited and unioned queries are wrapped as `SELECT COUNT(*) FROM (...) AS t`,
+   * so the count matches the number of rows the query returns.
+   *
+   * @returns A promise that resolves to the count of matching rows.
+   * @note `ORDER BY` is dropped unless the query has a `LIMIT` or an `OFFSET`, locking clauses are always dropped.
+   * @note The query state is left unchanged.
+   */
+  public count(): Promise<number> {
+    const state = this.state;
+    const paged = isDefined(state.limit) || isDefined(state.offset);
+    const wrapped = this.wrapped();
+
+    return this.fetch(
+      () => {
+        // Locking clauses are not allowed with aggregate functions
+        this.state.lock = undefined;
+
+        // The order only matters when it decides which rows are kept
+        if (!paged) this.state.order = new Array();
+        if (!wrapped) this.state.columns = ['COUNT(*) AS count'];
+      },
+      (sql) => {
+        if (!wrapped) return sql;
+
+        const count = quote('count', this.connection);
+        const alias = quote('t', this.connection);
+        return `SELECT COUNT(*) AS ${count} FROM (${sql}) AS ${alias}`;
+      }
+    ).then((rows) => (rows[0] ? numeric(rows[0].count) : 0));
+  }
+
+  /**
+   * Paginates the query results and returns a specific page of items, along with pagination details.
+   *
+   * This method is useful for breaking down large result sets into smaller, paginated chunks.
+   *
+   * @param page page The page number to retrieve (starting from 1).
+   * @param items The number of items per page (default is 10).
+   * @returns A promise that resolves to an object
+   *
+   * @notes
+   *   - Use `next` and `prev` to determine if you should show or hide the `Next` and `Previous` buttons in your UI.
+   *     - If `next` is `undefined`, hide the `Next` button (last page).
+   *     - If `prev` is `undefined`, hide the `Previous` button (first page).
+   *   - Use `total.pages` and `total.items` to show total pages and items to users.
+   *   - You can also use this method to implement infinite scrolling.
+   *   - The count and the page queries run concurrently, the query state is left unchanged.
+   */
+  public paginate(page: number, items: number = 10): Promise<Pagination<Row>> {
+    if (!isInt(page) || page < 1) page = 1;
+    if (!isInt(items) || items < 1) items = 10;
+
+    const offset = (page - 1) * items;
+
+    // The count and the page queries run concurrently
+    return Promise.all([
+      this.snapshot({ limit: undefined, offset: undefined }, () =>
+        this.count()
+      ),
+      this.snapshot({ limit: items, offset }, () => this.exec()),
+    ]).then(([total, result]) => {
+      const totalPages = Math.ceil(total / items);
+
+      return {
+        result,
+        page: {
+          current: page,
+          prev: page - 1 === 0 ? undefined : page - 1,
+          next: page < totalPages ? page + 1 : undefined,
+          items,
+        },
+        total: { pages: totalPages, items: total },
+      };
+    });
+  }
+
+  /**
+   * Paginates the query results without counting the total number of items.
+   *
+   * Fetches one more item than requested to know whether there is a next page, which avoids the `COUNT(*)`
+   * query on large tables where exact totals are too expensive.
+   *
+   * @param page The page number to retrieve (starting from 1).
+   * @param items The number of items per page (default is 10).
+   * @returns A promise that resolves to the page items and the adjacent page numbers.
+   * @note The query state is left unchanged.
+   */
+  public simplePaginate(
+    page: number,
+    items: number = 10
+  ): Promise<SimplePagination<Row>> {
+    if (!isInt(page) || page < 1) page = 1;
+    if (!isInt(items) || items < 1) items = 10;
+
+    const offset = (page - 1) * items;
+
+    return this.snapshot({ limit: items + 1, offset }, () => this.exec()).then(
+      (rows) => ({
+        result: rows.slice(0, items),
+        page: {
+          current: page,
+          prev: page - 1 === 0 ? undefined : page - 1,
+          next: rows.length > items ? page + 1 : undefined,
+          items,
+        },
+      })
+    );
+  }
+
+  /**
+   * Processes the query results in chunks, calling the callback with each chunk of rows.
+   *
+   * With a `key`, chunks are fetched using keyset pagination on that unique column (e.g., the primary key),
+   * which keeps every chunk fast. Without it, chunks are fetched using `LIMIT` and `OFFSET` in the query order.
+   *
+   * @param size The number of rows per chunk.
+   * @param callback A function called with each chunk and its index, return `false` to stop early.
+   * @param key An optional unique, non-null and selected column to paginate on.
+   * @returns A promise that resolves once all the chunks are processed, or the callback returned `false`.
+   * @throws `QueryError` if the size, the callback or the key is invalid.
+   *
+   * @note Without a `key`, define an `ORDER BY` on unique columns, so rows are neither skipped nor repeated.
+   * @note The query `LIMIT` and `OFFSET` define the overall rows to process, `OFFSET` cannot be used with a `key`.
+   * @note The query state is left unchanged, its `LIMIT` and `OFFSET` are replaced for each chunk.
+   */
+  public async chunk(
+    size: number,
+    callback: (rows: Rows, index: number) => unknown,
+    key?: string
+  ): Promise<void> {
+    if (!isFunc(callback)) {
+      throw new QueryError(`Invalid chunk callback: ${String(callback)}`);
+    }
+
+    let index = 0;
+
+    for await (const rows of this.batches(size, key)) {
+      if ((await callback(rows, index++)) === false) break;
+    }
+  }
+
+  /**
+   * Iterates over the query results row by row, fetching them in batches.
+   *
+   * @param options The `batch` size (default is 100), and an optional unique `key` column to paginate on.
+   * @returns An async iterator of the rows, use it with `for await`.
+   * @throws `QueryError` if the batch size or the key is invalid.
+   *
+   * @note Breaking out of the loop stops fetching the remaining batches.
+   * @note See `chunk()` for how the batches are fetched.
+   */
+  public async *iterate(
+    options: { batch?: number; key?: string } = {}
+  ): AsyncGenerator<Row> {
+    for await (const rows of this.batches(
+      isDefined(options.batch) ? options.batch : 100,
+      options.key
+    )) {
+      yield* rows;
+    }
+  }
+
+  /**
+   * Fetches the query results in batches, using keyset pagination on the key if any, or `LIMIT` and `OFFSET`.
+   *
+   * @param size The number of rows per batch.
+   * @param key An optional unique column to paginate on.
+   * @returns An async iterator of the batches, within the query `LIMIT` and `OFFSET` if any.
+   * @throws `QueryError` if the size or the key is invalid, or the query has an `OFFSET` and a key is given.
+   */
+  private async *batches(size: number, key?: string): AsyncGenerator<Rows> {
+    if (!isInt(size) || size < 1) {
+      throw new QueryError(`Invalid chunk size: ${String(size)}`);
+    }
+
+    if (isDefined(key) && !isFullStr(key)) {
+      throw new QueryError(`Invalid chunk key: ${String(key)}`);
+    }
+
+    // The query LIMIT and OFFSET define the window of rows to fetch
+    const start = isDefined(this.state.offset) ? this.state.offset : 0;
+    let remaining = isDefined(this.state.limit) ? this.state.limit : Infinity;
+
+    if (isDefined(key)) {
+      if (isDefined(this.state.offset)) {
+        throw new QueryError('OFFSET cannot be used with a chunk key');
+      }
+
+      let after: string | undefined;
+
+      while (remaining > 0) {
+        const page = await this.cursorPaginate({
+          orderBy: key,
+          after,
+          limit: Math.min(size, remaining),
+        });
+
+        if (page.result.length > 0) yield page.result;
+
+        remaining -= page.result.length;
+        after = page.cursor.next;
+
+        if (isUndefined(after)) return;
+      }
+
+      return;
+    }
+
+    for (let offset = start; remaining > 0; offset += size) {
+      const limit = Math.min(size, remaining);
+      const rows = await this.snapshot({ limit, offset }, () => this.exec());
+
+      if (rows.length > 0) yield rows;
+      if (rows.length < limit) return;
+
+      remaining -= rows.length;
+    }
+  }
+
+  /**
+   * Runs the given function on a snapshot of the query state, restoring the state once the query is built.
+   *
+   * @param changes The state properties to change in the snapshot.
+   * @param run A function that builds and executes the query synchronously, returning its promise.
+   * @returns The promise returned by `run`, or a rejected promise if the query cannot be built.
+   */
+  private snapshot<T>(
+    changes: Partial<State>,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const state = this.state;
+
+    this.state = { ...state, ...changes };
+
+    try {
+      return run();
+    } catch (error) {
+      return Promise.reject(error);
+    } finally {
+      this.state = state;
+    }
+  }
+
+  /**
+   * Paginates the results using keyset (cursor) pagination.
+   *
+   * Instead of skipping rows with `OFFSET`, the page starts right after (or before) the row encoded in the cursor,
+   * which keeps every page fast and stable while rows are inserted or deleted between requests.
+   *
+   * @param options The pagination options: the unique sort columns, the `after` or `before` cursor, and the `limit`.
+   * @returns A promise that resolves with the page items and the cursors of the adjacent pages.
+   * @throws `QueryError` if the options or the cursor are invalid.
+   *
+   * @note The sort columns must be unique together, non-null, and selected by the query.
+   * @note The query state is left unchanged, its `ORDER BY`, `LIMIT` and `OFFSET` are replaced for this query only.
+   */
+  public cursorPaginate(
+    options: CursorOptions
+  ): Promise<CursorPagination<Row>> {
     return new Promise((resolve, reject) => {
-      if (!isInt(page) || page < 1) page = 1;
-      if (!isInt(items) || items < 1) items = 10;
-
-      this.count()
-        .then((count) => {
-          const offset = (page - 1) * items;
-          this.limit(items).offset(offset);
-
-          this.exec()
-            .then((result) => {
-              const total = count;
-              const totalPages = Math.ceil(total / items);
-
-              resolve({
-                result,
-                page: {
-                  current: page,
-                  prev: page - 1 === 0 ? undefined : page - 1,
-                  next: page < totalPages ? page + 1 : undefined,
-                  items,
-                },
-                total: { pages: totalPages, items: total },
-              });
-            })
-            .catch(reject);
+      if (!isObj(options)) {
+        throw new QueryError(`Invalid cursor options: ${String(options)}`);
+      }
+
+      if (isDefined(options.after) && isDefined(options.before)) {
+        throw new QueryError('Invalid cursor: use either after or before');
+      }
+
+      const sort = sorting(options.orderBy);
+      const columns = sort.map((s) => s.column);
+      const backward = isDefined(options.before);
+      const cursor = backward ? options.before : options.after;
+      const items =
+        isInt(options.limit) && options.limit > 0 ? options.limit : 10;
+
+      this.fetch(() => {
+        if (isDefined(cursor) || isDefined(this.state.where)) {
+          const where = new Condition(this);
+
+          if (isDefined(this.state.where)) where.include(this.state.where);
+          if (isDefined(this.state.where) && isDefined(cursor)) where.and();
+          if (isDefined(cursor)) {
+            this.seek(where, sort, decode(cursor, sort.length), backward);
+          }
+
+          this.state.where = where;
+        }
+
+        // Walk backward in reverse order, then restore the order of the page
+        this.state.order = sort.map((s) => ({
+          column: s.column,
+          type: ((s.type === ASC) !== backward ? ASC : DESC).description,
+        }));
+
+        this.state.limit = items + 1;
+        this.state.offset = undefined;
+      })
+        .then((rows: Rows) => {
+          const more = rows.length > items;
+          const result = rows.slice(0, items);
+
+          if (backward) result.reverse();
+
+          const first = result[0];
+          const last = result[result.length - 1];
+          const hasPrev = backward ? more : isDefined(cursor);
+          const hasNext = backward ? true : more;
+
+          resolve({
+            result,
+            cursor: {
+              prev: hasPrev && first ? encode(first, columns) : undefined,
+              next: hasNext && last ? encode(last, columns) : undefined,
+            },
+            items,
+          });
         })
         .catch(reject);
     });
   }
+
+  /**
+   * Adds the keyset predicate, matching the rows after (or before) the cursor values in the sorting order.
+   *
+   * Uses a row value comparison `(a, b) > (?, ?)` when all the columns are sorted in the same order,
+   * and the expanded form `(a > ? OR (a = ? AND b < ?))` otherwise.
+   *
+   * @param where The condition to add the predicate to.
+   * @param sort The sort columns and their sorting order.
+   * @param values The cursor values.
+   * @param backward Whether to match the rows before the cursor.
+   */
+  private seek(
+    where: Condition,
+    sort: Array<{ column: string; type: typeof ASC | typeof DESC }>,
+    values: Array<CursorValue>,
+    backward: boolean
+  ): void {
+    const operator = (type: symbol) =>
+      (type === ASC) !== backward ? '>' : '<';
+
+    if (sort.length === 1) {
+      where.col(sort[0].column);
+
+      if (operator(sort[0].type) === '>') where.greaterThan(values[0]);
+      else where.lessThan(values[0]);
+
+      return;
+    }
+
+    if (sort.every((s) => s.type === sort[0].type)) {
+      const columns = sort
+        .map((s) => quote(s.column, this.connection))
+        .join(', ');
+
+      const placeholders = sort.map(() => '?').join(', ');
+
+      where.raw(
+        `(${columns}) ${operator(sort[0].type)} (${placeholders})`,
+        ...values
+      );
+
+      return;
+    }
+
+    where.open();
+
+    sort.forEach((s, i) => {
+      if (i > 0) where.or().open();
+
+      sort.slice(0, i).forEach((prev, j) => {
+        where.col(prev.column).equal(values[j]).and();
+      });
+
+      where.col(s.column);
+
+      if (operator(s.type) === '>') where.greaterThan(values[i]);
+      else where.lessThan(values[i]);
+
+      if (i > 0) where.close();
+    });
+
+    where.close();
+  }
 }
@@ -5,15 +5,13 @@ import {
   isFullArr,
   isFullStr,
   isFunc,
-  isNull,
-  isNum,
   isObj,
-  isStr,
   isUndefined,
 } from '@megaorm/test';
 
-import { Col, Con, Condition } from './Condition';
-import { Query } from './Query';
+import { Col, Con, Condition, Filters } from './Condition';
+import { format, isField, quote, serialize, Transformers } from './Dialect';
+import { Compiled, Query } from './Query';
 
 /**
  * The `Update` class provides methods to construct and execute `UPDATE` SQL queries on a specified table.
@@ -23,7 +21,9 @@ export class Update extends Query<void> {
   private state = {
     table: undefined,
     columns: new Array(),
+    values: new Array(),
     condition: undefined,
+    transformers: {} as Transformers,
   };
 
   /**
@@ -35,7 +35,9 @@ export class Update extends Query<void> {
   public reset(): this {
     this.state.table = undefined;
     this.state.columns = new Array();
+    this.state.values = new Array();
     this.state.condition = undefined;
+    this.state.transformers = {};
 
     // inherted from Query
     this.values = new Array();
@@ -45,12 +47,36 @@ export class Update extends Query<void> {
   }
 
   /**
-   * Builds and returns the final SQL `UPDATE` statement.
+   * Creates a deep copy of the `Update` query, chaining on the copy does not affect the original.
+   *
+   * @returns A new `Update` instance with the same table, columns, values, condition and transformers.
+   */
+  public clone(): Update {
+    const update = new Update(this.connection);
+
+    update.state.table = this.state.table;
+    update.state.columns = [...this.state.columns];
+    update.state.values = [...this.state.values];
+    update.state.condition = this.state.condition
+      ? this.state.condition.clone(update)
+      : undefined;
+    update.state.transformers = { ...this.state.transformers };
+
+    // inherited from Query
+    update.values = [...this.values];
+    update.query = this.query;
+
+    return update;
+  }
+
+  /**
+   * Compiles the final SQL `UPDATE` statement and its values, without mutating the query.
    *
    * @throws `QueryError` if the table name is invalid or if no `WHERE` condition is specified.
-   * @returns The constructed SQL `UPDATE` statement as a string.
+   * @returns The immutable compiled `UPDATE` statement and its values.
+   * @note Values are transformed and serialized for the connection driver.
    */
-  public build(): string {
+  public compile(): Compiled {
     if (!isFullStr(this.state.table)) {
       throw new QueryError(`Invalid UPDATE table: ${String(this.state.table)}`);
     }
@@ -59,7 +85,7 @@ export class Update extends Query<void> {
       throw new QueryError(`Invalid UPDATE columns`);
     }
 
-    if (!isFullArr(this.values)) {
+    if (!isFullArr(this.state.values)) {
       throw new QueryError(`Invalid UPDATE values`);
     }
 
@@ -67,15 +93,56 @@ export class Update extends Query<void> {
       throw new QueryError(`UPDATE condition is required`);
     }
 
+    const table = quote(this.state.table, this.connection);
+    const fields = this.state.columns.map((c, i) =>
+      this.field(c, this.state.values[i])
+    );
     const columns = this.state.columns
-      .map((c, i) => (this.values[i] === null ? `${c} = NULL` : `${c} = ?`))
+      .map((c, i) => {
+        const column = quote(c, this.connection);
+        return fields[i] === null ? `${column} = NULL` : `${column} = ?`;
+      })
       .join(', ');
 
-    this.values = this.values.filter((v) => v !== null);
+    const condition = this.state.condition.compile(this.connection);
+
+    return this.freeze(
+      format(
+        `UPDATE ${table} SET ${columns} WHERE ${condition.sql};`,
+        this.connection
+      ),
+      [...fields.filter((v) => v !== null), ...condition.values]
+    );
+  }
+
+  /**
+   * Transforms and serializes the value of the given column.
+   *
+   * @param column The name of the column.
+   * @param value The new value of the column.
+   * @returns The value serialized for the connection driver.
+   * @throws `QueryError` if the transformed value is invalid.
+   */
+  private field(column: string, value: unknown): unknown {
+    const transformer = this.state.transformers[column];
+
+    if (transformer && value !== null) value = transformer(value);
+
+    if (!isField(value)) {
+      throw new QueryError(`Invalid UPDATE value: ${String(value)}`);
+    }
 
-    return `UPDATE ${
-      this.state.table
-    } SET ${columns} WHERE ${this.state.condition.build()};`;
+    return serialize(value, this.connection);
+  }
+
+  /**
+   * Builds and returns the final SQL `UPDATE` statement.
+   *
+   * @throws `QueryError` if the table name is invalid or if no `WHERE` condition is specified.
+   * @returns The constructed SQL `UPDATE` statement as a string.
+   */
+  public build(): string {
+    return this.compile().sql;
   }
 
   /**
@@ -87,12 +154,13 @@ export class Update extends Query<void> {
    *
    * @notes
    * - The keys in the `row` object represent column names (e.g. `first_name` `last_name`).
-   * - The values in the `row` object represent the update values and must be either `string` or `number` or `null`.
-   * - All values can be represented using `strings` and `numbers` and `null`:
-   *   - Boolean: use `1` for true and `0` for false
-   *   - Null: use `null`
-   *   - JSON: use `JSON.stringify(object)` for objects
-   *   - Dates: use date strings formatted as `'YYYY-MM-DD hh:mm:ss'`
+   * - The values in the `row` object represent the update values and must be one of:
+   *   - `string`, `number`, `bigint` or `null`
+   *   - `boolean`: bound as `1` or `0` for MySQL and SQLite
+   *   - `Date`: bound as a `YYYY-MM-DD HH:MM:SS` UTC string for SQLite
+   *   - `Buffer`: for `BLOB` and `BYTEA` columns
+   *   - Plain objects and arrays: for `JSON` and `JSONB` columns
+   * - Values of columns with a transformer can be of any type, see `transform()`.
    */
   public set(row: Row): this {
     if (!isObj(row)) {
@@ -102,18 +170,49 @@ export class Update extends Query<void> {
     const columns = Object.keys(row);
     const values = Object.values(row);
 
-    values.forEach((v) => {
-      if (!(isStr(v) || isNum(v) || isNull(v))) {
+    values.forEach((v, i) => {
+      if (this.state.transformers[columns[i]]) return;
+
+      if (!isField(v)) {
         throw new QueryError(`Invalid UPDATE value: ${String(v)}`);
       }
     });
 
     this.state.columns = columns;
-    this.values = values;
+    this.state.values = values;
 
     return this;
   }
 
+  /**
+   * Registers transformers to convert column values before they are serialized.
+   *
+   * @param transformers An object with keys as column names and functions converting their values.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the transformers are invalid.
+   *
+   * @notes
+   * - Transformers run when the query is compiled and are never called for `null` values.
+   * - Transformers must return a valid update value (e.g., `string`, `number`, `Date`, `null`).
+   * - Register transformers before setting values of custom types (e.g., class instances).
+   */
+  public transform(transformers: Transformers): this {
+    if (!isObj(transformers)) {
+      throw new QueryError(
+        `Invalid UPDATE transformers: ${String(transformers)}`
+      );
+    }
+
+    Object.keys(transformers).forEach((column) => {
+      if (!isFunc(transformers[column])) {
+        throw new QueryError(`Invalid UPDATE transformer: ${column}`);
+      }
+    });
+
+    this.state.transformers = { ...this.state.transformers, ...transformers };
+    return this;
+  }
+
   /**
    * Specifies the table for the `UPDATE` operation.
    *
@@ -133,12 +232,14 @@ export class Update extends Query<void> {
   /**
    * Adds a `WHERE` condition for the `UPDATE` operation.
    *
-   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder.
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
    * @returns The `Update` query instance (`this`) to allow method chaining.
-   * @throws `QueryError` if `condition` is not a function.
+   * @throws `QueryError` if `condition` is not a function, a `Condition` or an object.
    */
-  public where(condition: (col: Col, con: Con) => void): this {
-    if (!isFunc(condition)) {
+  public where(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
       throw new QueryError(`Invalid UPDATE condition: ${String(condition)}`);
     }
 
@@ -146,7 +247,19 @@ export class Update extends Query<void> {
       this.state.condition = new Condition(this);
     }
 
-    condition(
+    if (condition instanceof Condition) {
+      this.state.condition.include(condition);
+      return this;
+    }
+
+    if (isObj(condition)) {
+      this.state.condition.filter(condition as Filters);
+      return this;
+    }
+
+    const callback = condition as (col: Col, con: Con) => void;
+
+    callback(
       this.state.condition.col.bind(this.state.condition),
       this.state.condition
     );
@@ -154,6 +267,58 @@ export class Update extends Query<void> {
     return this;
   }
 
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public andWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('AND', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
+   *
+   * @param condition A function to define the condition, with access to `col` a column selector, and `con` the condition builder, a standalone `Condition`, or object-style filters.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   * @note Conditions with more than one comparison and raw conditions are wrapped in parentheses to keep their precedence.
+   */
+  public orWhere(
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    return this.append('OR', condition);
+  }
+
+  /**
+   * Adds a condition to the `WHERE` clause, preceded by the given logical operator if the clause already has a condition.
+   *
+   * @param operator The logical operator (`AND` or `OR`).
+   * @param condition A function to define the condition, a standalone `Condition`, or object-style filters.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the condition is not a function, a `Condition` or an object.
+   */
+  private append(
+    operator: 'AND' | 'OR',
+    condition: Condition | Filters | ((col: Col, con: Con) => void)
+  ): this {
+    if (!(isFunc(condition) || isObj(condition))) {
+      throw new QueryError(`Invalid UPDATE condition: ${String(condition)}`);
+    }
+
+    if (isUndefined(this.state.condition)) {
+      this.state.condition = new Condition(this);
+    }
+
+    this.state.condition.append(operator, condition);
+    return this;
+  }
+
   /**
    * Adds an `AND` logical operator to the `WHERE` condition.
    *
@@ -229,4 +394,68 @@ export class Update extends Query<void> {
     this.state.condition.close();
     return this;
   }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public group(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.condition)) {
+      this.state.condition = new Condition(this);
+    }
+
+    this.state.condition.group(callback);
+    return this;
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `AND` if the clause already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public andGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.condition)) {
+      this.state.condition = new Condition(this);
+    }
+
+    this.state.condition.andGroup(callback);
+    return this;
+  }
+
+  /**
+   * Adds a group of conditions wrapped in parentheses to the `WHERE` clause, preceded by `OR` if the clause already has a condition.
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public orGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.condition)) {
+      this.state.condition = new Condition(this);
+    }
+
+    this.state.condition.orGroup(callback);
+    return this;
+  }
+
+  /**
+   * Adds a negated group of conditions wrapped in parentheses to the `WHERE` clause (e.g., `NOT (a = ? OR b = ?)`).
+   *
+   * @param callback A function to define the grouped conditions, with access to `col` a column selector, and `con` the condition builder.
+   * @returns The `Update` query instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the callback is not a function, or the group is empty or has unmatched parentheses.
+   */
+  public notGroup(callback: (col: Col, con: Con) => void): this {
+    if (isUndefined(this.state.condition)) {
+      this.state.condition = new Condition(this);
+    }
+
+    this.state.condition.notGroup(callback);
+    return this;
+  }
 }
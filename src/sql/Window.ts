@@ -0,0 +1,436 @@
+import { QueryError } from '@megaorm/errors';
+import { MegaPoolConnection } from '@megaorm/pool';
+import { isFullStr, isFunc, isInt, isNum, isUndefined } from '@megaorm/test';
+
+import { Expr, quote } from './Dialect';
+import { ASC, DESC } from './Select';
+
+/**
+ * Frame bound representing the first row of the partition.
+ */
+export const UNBOUNDED_PRECEDING = Symbol('UNBOUNDED PRECEDING');
+
+/**
+ * Frame bound representing the current row.
+ */
+export const CURRENT_ROW = Symbol('CURRENT ROW');
+
+/**
+ * Frame bound representing the last row of the partition.
+ */
+export const UNBOUNDED_FOLLOWING = Symbol('UNBOUNDED FOLLOWING');
+
+/**
+ * Matches the description of a valid frame bound symbol.
+ */
+const BOUND =
+  /^(UNBOUNDED PRECEDING|UNBOUNDED FOLLOWING|CURRENT ROW|\d+ PRECEDING|\d+ FOLLOWING)$/;
+
+/**
+ * Matches a valid SQL function name (e.g., `ROW_NUMBER`, `SUM`).
+ */
+const FUNCTION = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Creates a frame bound for the given number of rows before the current row.
+ *
+ * @param rows The number of rows (must be a non-negative integer).
+ * @returns The frame bound symbol (e.g., `3 PRECEDING`).
+ * @throws `QueryError` if the number of rows is invalid.
+ */
+export function preceding(rows: number): symbol {
+  if (!isInt(rows) || rows < 0) {
+    throw new QueryError(`Invalid PRECEDING rows: ${String(rows)}`);
+  }
+
+  return Symbol(`${rows} PRECEDING`);
+}
+
+/**
+ * Creates a frame bound for the given number of rows after the current row.
+ *
+ * @param rows The number of rows (must be a non-negative integer).
+ * @returns The frame bound symbol (e.g., `3 FOLLOWING`).
+ * @throws `QueryError` if the number of rows is invalid.
+ */
+export function following(rows: number): symbol {
+  if (!isInt(rows) || rows < 0) {
+    throw new QueryError(`Invalid FOLLOWING rows: ${String(rows)}`);
+  }
+
+  return Symbol(`${rows} FOLLOWING`);
+}
+
+/**
+ * Checks if the given value is a valid frame bound symbol.
+ *
+ * @param bound The value to check.
+ * @returns `true` if the value is a frame bound, `false` otherwise.
+ */
+function isBound(bound: unknown): bound is symbol {
+  return typeof bound === 'symbol' && BOUND.test(bound.description);
+}
+
+/**
+ * The `Window` class builds a window specification, used in the `OVER` clause of window functions
+ * and in named `WINDOW` definitions.
+ *
+ * @example
+ * // PARTITION BY user_id ORDER BY created_at DESC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+ * new Window()
+ *   .partitionBy('user_id')
+ *   .orderBy('created_at', DESC)
+ *   .rows(UNBOUNDED_PRECEDING, CURRENT_ROW);
+ */
+export class Window {
+  /**
+   * The columns to partition the rows by.
+   */
+  private partitions: Array<string | Expr> = new Array();
+
+  /**
+   * Sorting instructions of the window, each entry contains a `column` and a `type`.
+   */
+  private order: Array<{ column: string | Expr; type: string }> = new Array();
+
+  /**
+   * The frame clause of the window (e.g., `ROWS BETWEEN 1 PRECEDING AND CURRENT ROW`).
+   */
+  private frame: string | undefined;
+
+  /**
+   * Adds a `PARTITION BY` clause to the window.
+   *
+   * @param columns The columns to partition by.
+   * @returns The `Window` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if a column name is invalid.
+   */
+  public partitionBy(...columns: Array<string | Expr>): this {
+    columns.forEach((column) => {
+      if (!(column instanceof Expr || isFullStr(column))) {
+        throw new QueryError(`Invalid PARTITION BY column: ${String(column)}`);
+      }
+    });
+
+    this.partitions.push(...columns);
+    return this;
+  }
+
+  /**
+   * Adds an `ORDER BY` clause to the window.
+   *
+   * @param column The column to order by.
+   * @param type The type of ordering (`ASC` for ascending or `DESC` for descending).
+   * @returns The `Window` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the column name or the order type is invalid.
+   */
+  public orderBy(
+    column: string | Expr,
+    type: typeof ASC | typeof DESC = ASC
+  ): this {
+    if (!(column instanceof Expr || isFullStr(column))) {
+      throw new QueryError(`Invalid ORDER BY column: ${String(column)}`);
+    }
+
+    if (![ASC, DESC].includes(type)) {
+      throw new QueryError(`Invalid ORDER BY type: ${String(type)}`);
+    }
+
+    this.order.push({ column, type: type.description });
+    return this;
+  }
+
+  /**
+   * Adds a `ROWS` frame clause to the window, the frame is counted in rows.
+   *
+   * @param start The frame start (e.g., `UNBOUNDED_PRECEDING`, `preceding(3)`, `CURRENT_ROW`).
+   * @param end The frame end (e.g., `CURRENT_ROW`, `following(3)`), omit it to end the frame at the current row.
+   * @returns The `Window` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if a frame bound is invalid.
+   */
+  public rows(start: symbol, end?: symbol): this {
+    return this.between('ROWS', start, end);
+  }
+
+  /**
+   * Adds a `RANGE` frame clause to the window, the frame is counted in `ORDER BY` values.
+   *
+   * @param start The frame start (e.g., `UNBOUNDED_PRECEDING`, `preceding(3)`, `CURRENT_ROW`).
+   * @param end The frame end (e.g., `CURRENT_ROW`, `following(3)`), omit it to end the frame at the current row.
+   * @returns The `Window` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if a frame bound is invalid.
+   */
+  public range(start: symbol, end?: symbol): this {
+    return this.between('RANGE', start, end);
+  }
+
+  /**
+   * Sets the frame clause of the window.
+   *
+   * @param unit The frame unit (`ROWS` or `RANGE`).
+   * @param start The frame start.
+   * @param end The frame end, if any.
+   * @returns The `Window` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if a frame bound is invalid.
+   */
+  private between(unit: string, start: symbol, end?: symbol): this {
+    if (!isBound(start)) {
+      throw new QueryError(`Invalid frame start: ${String(start)}`);
+    }
+
+    if (!(isUndefined(end) || isBound(end))) {
+      throw new QueryError(`Invalid frame end: ${String(end)}`);
+    }
+
+    this.frame = isUndefined(end)
+      ? `${unit} ${start.description}`
+      : `${unit} BETWEEN ${start.description} AND ${end.description}`;
+
+    return this;
+  }
+
+  /**
+   * Creates a copy of the window, chaining on the copy does not affect the original.
+   *
+   * @returns A new `Window` instance with the same partitions, order and frame.
+   */
+  public clone(): Window {
+    const window = new Window();
+
+    window.partitions = [...this.partitions];
+    window.order = this.order.map((o) => ({ ...o }));
+    window.frame = this.frame;
+
+    return window;
+  }
+
+  /**
+   * Builds the window specification.
+   *
+   * @param connection The connection to build for.
+   * @returns The window specification, without parentheses.
+   */
+  public build(connection: MegaPoolConnection): string {
+    const clauses = new Array();
+
+    if (this.partitions.length > 0) {
+      const columns = this.partitions.map((c) => quote(c, connection));
+      clauses.push(`PARTITION BY ${columns.join(', ')}`);
+    }
+
+    if (this.order.length > 0) {
+      const order = this.order.map(
+        (o) => `${quote(o.column, connection)} ${o.type}`
+      );
+
+      clauses.push(`ORDER BY ${order.join(', ')}`);
+    }
+
+    if (this.frame) clauses.push(this.frame);
+
+    return clauses.join(' ');
+  }
+}
+
+/**
+ * The `WindowFunction` class represents a function evaluated over a window (e.g., `ROW_NUMBER() OVER (...)`).
+ * Use it in `Select.col()` and `Select.orderBy()`.
+ */
+export class WindowFunction {
+  /**
+   * The name of the function (e.g., `ROW_NUMBER`).
+   */
+  private name: string;
+
+  /**
+   * The function arguments, strings are quoted as columns, numbers and expressions are used as is.
+   */
+  private args: Array<string | number | Expr>;
+
+  /**
+   * The window of the function, either a named window or a window specification.
+   */
+  private window: string | Window | undefined;
+
+  /**
+   * The alias of the function result.
+   */
+  private alias: string | undefined;
+
+  /**
+   * Creates a new window function.
+   *
+   * @param name The name of the function.
+   * @param args The function arguments.
+   * @throws `QueryError` if the name or the arguments are invalid.
+   */
+  constructor(name: string, args: Array<string | number | Expr> = []) {
+    if (!isFullStr(name) || !FUNCTION.test(name)) {
+      throw new QueryError(`Invalid window function: ${String(name)}`);
+    }
+
+    args.forEach((arg) => {
+      if (!(arg instanceof Expr || isFullStr(arg) || isNum(arg))) {
+        throw new QueryError(
+          `Invalid window function argument: ${String(arg)}`
+        );
+      }
+    });
+
+    this.name = name.toUpperCase();
+    this.args = args;
+  }
+
+  /**
+   * Sets the window of the function.
+   *
+   * @param window The name of a window defined with `Select.window()`, or a function to define the window.
+   * @returns The `WindowFunction` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the window is invalid.
+   */
+  public over(window: string | ((window: Window) => void)): this {
+    if (isFullStr(window)) {
+      this.window = window as string;
+      return this;
+    }
+
+    if (!isFunc(window)) {
+      throw new QueryError(`Invalid OVER window: ${String(window)}`);
+    }
+
+    this.window = new Window();
+    (window as (window: Window) => void)(this.window);
+    return this;
+  }
+
+  /**
+   * Sets the alias of the function result.
+   *
+   * @param alias The alias name.
+   * @returns The `WindowFunction` instance (`this`) to allow method chaining.
+   * @throws `QueryError` if the alias is invalid.
+   */
+  public as(alias: string): this {
+    if (!isFullStr(alias)) {
+      throw new QueryError(`Invalid window function alias: ${String(alias)}`);
+    }
+
+    this.alias = alias;
+    return this;
+  }
+
+  /**
+   * Builds the window function expression.
+   *
+   * @param connection The connection to build for.
+   * @param alias Whether to include the alias (default is `true`).
+   * @returns The window function expression.
+   * @throws `QueryError` if the window is not defined.
+   */
+  public build(connection: MegaPoolConnection, alias: boolean = true): string {
+    if (isUndefined(this.window)) {
+      throw new QueryError(`Missing OVER clause: ${this.name}()`);
+    }
+
+    const args = this.args
+      .map((arg) =>
+        isNum(arg) ? String(arg) : quote(arg as string, connection)
+      )
+      .join(', ');
+
+    const window =
+      this.window instanceof Window
+        ? `(${this.window.build(connection)})`
+        : quote(this.window, connection);
+
+    const expression = `${this.name}(${args}) OVER ${window}`;
+
+    if (alias && this.alias) {
+      return `${expression} AS ${quote(this.alias, connection)}`;
+    }
+
+    return expression;
+  }
+}
+
+/**
+ * Creates a window function with the given name and arguments.
+ *
+ * @param name The name of the function (e.g., `SUM`, `NTILE`, `FIRST_VALUE`).
+ * @param args The function arguments, strings are quoted as columns, numbers and expressions are used as is.
+ * @returns A `WindowFunction` instance.
+ * @throws `QueryError` if the name or the arguments are invalid.
+ * @example
+ * // SUM(amount) OVER (PARTITION BY user_id ORDER BY created_at) AS running_total
+ * func('SUM', 'amount')
+ *   .over((w) => w.partitionBy('user_id').orderBy('created_at'))
+ *   .as('running_total');
+ */
+export function func(
+  name: string,
+  ...args: Array<string | number | Expr>
+): WindowFunction {
+  return new WindowFunction(name, args);
+}
+
+/**
+ * Creates a `ROW_NUMBER()` window function, numbering the rows of each partition starting from 1.
+ *
+ * @returns A `WindowFunction` instance.
+ */
+export function rowNumber(): WindowFunction {
+  return new WindowFunction('ROW_NUMBER');
+}
+
+/**
+ * Creates a `RANK()` window function, ranking the rows of each partition with gaps for ties.
+ *
+ * @returns A `WindowFunction` instance.
+ */
+export function rank(): WindowFunction {
+  return new WindowFunction('RANK');
+}
+
+/**
+ * Creates a `DENSE_RANK()` window function, ranking the rows of each partition without gaps for ties.
+ *
+ * @returns A `WindowFunction` instance.
+ */
+export function denseRank(): WindowFunction {
+  return new WindowFunction('DENSE_RANK');
+}
+
+/**
+ * Creates a `LAG()` window function, returning the column value of a previous row.
+ *
+ * @param column The column to read.
+ * @param offset The number of rows before the current row (default is `1`).
+ * @returns A `WindowFunction` instance.
+ * @throws `QueryError` if the column or the offset is invalid.
+ */
+export function lag(column: string | Expr, offset: number = 1): WindowFunction {
+  if (!isInt(offset) || offset < 0) {
+    throw new QueryError(`Invalid LAG offset: ${String(offset)}`);
+  }
+
+  return new WindowFunction('LAG', [column, offset]);
+}
+
+/**
+ * Creates a `LEAD()` window function, returning the column value of a following row.
+ *
+ * @param column The column to read.
+ * @param offset The number of rows after the current row (default is `1`).
+ * @returns A `WindowFunction` instance.
+ * @throws `QueryError` if the column or the offset is invalid.
+ */
+export function lead(
+  column: string | Expr,
+  offset: number = 1
+): WindowFunction {
+  if (!isInt(offset) || offset < 0) {
+    throw new QueryError(`Invalid LEAD offset: ${String(offset)}`);
+  }
+
+  return new WindowFunction('LEAD', [column, offset]);
+}
@@ -1,5 +1,5 @@
 import { Select } from '../../src';
-import { Condition, ref } from '../../src';
+import { Condition, condition as standalone, ref } from '../../src';
 
 import {
   exDate,
@@ -296,10 +296,214 @@ describe('Condition', () => {
     });
   });
 
+  describe('standalone', () => {
+    test('should create a condition without a query', () => {
+      const active = standalone((col) => col('status').equal('active'));
+
+      expect(active).toBeInstanceOf(Condition);
+      expect(active.values()).toEqual(['active']);
+      expect(active.build(mock.connection())).toBe('`status` = ?');
+    });
+
+    test('should compile for the given connection', () => {
+      const active = standalone((col) => col('status').equal('active'));
+      const con = mock.connection();
+      con.driver = mock.pg();
+
+      expect(active.compile(con)).toEqual({
+        sql: '"status" = ?',
+        values: ['active'],
+      });
+    });
+
+    test('should throw if built without a connection', () => {
+      const active = standalone((col) => col('status').equal('active'));
+
+      expect(() => active.build()).toThrow(
+        new QueryError(
+          'Standalone conditions must be compiled with a connection or used in a query builder'
+        )
+      );
+    });
+
+    test('should throw if a subquery is built without a connection', () => {
+      const buyers = standalone((col) =>
+        col('id').inSubquery((select) => select.col('user_id').from('orders'))
+      );
+
+      expect(() => buyers.build()).toThrow(
+        new QueryError(
+          'Standalone conditions must be compiled with a connection or used in a query builder'
+        )
+      );
+      expect(() => buyers.values()).toThrow(QueryError);
+    });
+
+    test('should compile subqueries with the given connection', () => {
+      const buyers = standalone((col) =>
+        col('id').inSubquery((select) =>
+          select
+            .col('user_id')
+            .from('orders')
+            .where((col) => col('total').greaterThan(100))
+        )
+      );
+
+      const con = mock.connection();
+      con.driver = mock.pg();
+
+      expect(buyers.compile(con)).toEqual({
+        sql: '"id" IN (SELECT "user_id" FROM "orders" WHERE "total" > ?)',
+        values: [100],
+      });
+    });
+
+    test('should throw if the condition is not a function', () => {
+      expect(() => standalone('invalid' as any)).toThrow(
+        new QueryError('Invalid condition: invalid')
+      );
+    });
+  });
+
+  describe('include', () => {
+    test('should include a single comparison as is', () => {
+      const active = standalone((col) => col('status').equal('active'));
+
+      condition.col('age').greaterThan(18).and().include(active);
+
+      expect(condition.build()).toBe('`age` > ? AND `status` = ?');
+      expect(condition.values()).toEqual([18, 'active']);
+    });
+
+    test('should wrap multiple comparisons in parentheses', () => {
+      const visible = standalone((col) =>
+        col('status').equal('active').or().col('role').equal('admin')
+      );
+
+      condition.col('age').greaterThan(18).and().include(visible);
+
+      expect(condition.build()).toBe(
+        '`age` > ? AND (`status` = ? OR `role` = ?)'
+      );
+      expect(condition.values()).toEqual([18, 'active', 'admin']);
+    });
+
+    test('should wrap raw conditions in parentheses', () => {
+      const raw = standalone((col, con) => con.raw('a = ? OR b = ?', 1, 2));
+
+      condition.col('x').equal(1).and().include(raw);
+
+      expect(condition.build()).toBe('`x` = ? AND (a = ? OR b = ?)');
+      expect(condition.values()).toEqual([1, 1, 2]);
+    });
+
+    test('should negate the included condition', () => {
+      const visible = standalone((col) =>
+        col('status').equal('active').or().col('role').equal('admin')
+      );
+
+      condition.not().include(visible);
+
+      expect(condition.build()).toBe('NOT (`status` = ? OR `role` = ?)');
+    });
+
+    test('should not change the included condition', () => {
+      const active = standalone((col) => col('status').equal('active'));
+
+      condition.include(active).and().col('age').greaterThan(18);
+
+      expect(condition.values()).toEqual(['active', 18]);
+      expect(active.values()).toEqual(['active']);
+    });
+
+    test('should throw for invalid conditions', () => {
+      expect(() => condition.include('invalid')).toThrow(
+        new QueryError('Invalid condition: invalid')
+      );
+
+      expect(() => condition.include(condition)).toThrow(QueryError);
+
+      expect(() =>
+        condition.include(standalone((col) => col('age').equal(1).and()))
+      ).toThrow(
+        new QueryError(
+          'Invalid syntax: AND at position 2 cannot end a condition.'
+        )
+      );
+    });
+  });
+
+  describe('append', () => {
+    test('should skip the logical operator for the first condition', () => {
+      condition.append('OR', (col) => col('age').greaterThan(18));
+
+      expect(condition.build()).toBe('`age` > ?');
+    });
+
+    test('should wrap the condition even if it comes first', () => {
+      condition
+        .append('AND', (col) => col('a').equal(1).or().col('b').equal(2))
+        .append('AND', (col) => col('c').equal(3));
+
+      expect(condition.build()).toBe('(`a` = ? OR `b` = ?) AND `c` = ?');
+      expect(condition.values()).toEqual([1, 2, 3]);
+    });
+
+    test('should append filters and standalone conditions', () => {
+      const active = standalone((col) => col('status').equal('active'));
+
+      condition
+        .append('AND', { role: 'admin', verified: 1 })
+        .append('OR', active);
+
+      expect(condition.build()).toBe(
+        '(`role` = ? AND `verified` = ?) OR `status` = ?'
+      );
+    });
+
+    test('should check the opened group for a previous condition', () => {
+      condition
+        .col('x')
+        .equal(1)
+        .and()
+        .paren()
+        .append('AND', (col) => col('a').equal(1))
+        .append('OR', (col) => col('b').equal(2))
+        .paren();
+
+      expect(condition.build()).toBe('`x` = ? AND (`a` = ? OR `b` = ?)');
+    });
+
+    test('should throw for invalid operators and conditions', () => {
+      expect(() => condition.append('XOR' as any, {})).toThrow(
+        new QueryError('Invalid logical operator: XOR')
+      );
+
+      expect(() => condition.append('AND', 'invalid' as any)).toThrow(
+        new QueryError('Invalid condition: invalid')
+      );
+
+      expect(() =>
+        condition.append('AND', (col) => col('age').equal(1).and())
+      ).toThrow(
+        new QueryError(
+          'Invalid syntax: AND at position 2 cannot end a condition.'
+        )
+      );
+
+      // Nothing is added if the condition is invalid
+      condition.col('x').equal(1);
+      expect(() => condition.append('AND', (col) => col('y'))).toThrow(
+        QueryError
+      );
+      expect(condition.build()).toBe('`x` = ?');
+    });
+  });
+
   describe('build', () => {
     test('should return the valid condition string', () => {
       condition.col('age').greaterThan(18).and().col('status').equal('active');
-      expect(condition.build()).toBe('age > ? AND status = ?');
+      expect(condition.build()).toBe('`age` > ? AND `status` = ?');
     });
 
     test('should throw an error for unmatched parentheses', () => {
@@ -310,10 +514,10 @@ describe('Condition', () => {
     });
 
     test('should throw an error for AND/OR following an opening parenthesis', () => {
-      condition.open().and().col('age').equal(18).close();
-      expect(() => condition.build()).toThrow(
+      condition.col('age').equal(18).or().open().and().col('age').equal(18);
+      expect(() => condition.close().build()).toThrow(
         new QueryError(
-          'Invalid syntax: AND/OR cannot directly follow an opening parenthesis.'
+          'Invalid syntax: AND at position 4 follows an opening group.'
         )
       );
     });
@@ -322,41 +526,74 @@ describe('Condition', () => {
       condition.open().col('age').equal(18).and().close();
       expect(() => condition.build()).toThrow(
         new QueryError(
-          'Invalid syntax: AND/OR cannot directly precede a closing parenthesis.'
+          'Invalid syntax: AND at position 3 precedes a closing group.'
         )
       );
     });
 
     test('should throw an error for consecutive AND/OR operators', () => {
-      condition.col('age').equal(18).and().and().col('status').equal('active');
+      condition.col('age').equal(18).and().or().col('status').equal('active');
       expect(() => condition.build()).toThrow(
-        new QueryError('Invalid syntax: Consecutive AND/OR operators found.')
+        new QueryError(
+          'Invalid syntax: OR at position 3 follows AND at position 2.'
+        )
       );
     });
 
     test('should throw an error for empty parentheses', () => {
-      condition.open().close().col('status').equal('active');
+      condition.open().close().and().col('status').equal('active');
       expect(() => condition.build()).toThrow(
-        new QueryError('Invalid syntax: Empty parentheses found.')
+        new QueryError('Invalid syntax: Empty group at position 1.')
       );
     });
 
     test('should throw an error if condition ends with AND/OR', () => {
       condition.col('age').equal(18).and();
       expect(() => condition.build()).toThrow(
-        new QueryError('Invalid syntax: Condition cannot end with an operator.')
+        new QueryError(
+          'Invalid syntax: AND at position 2 cannot end a condition.'
+        )
       );
     });
 
     test('should throw an error if condition starts with AND/OR', () => {
-      condition.and().col('age').equal(18);
+      condition.or().col('age').equal(18);
       expect(() => condition.build()).toThrow(
         new QueryError(
-          'Invalid syntax: Condition cannot start with an operator.'
+          'Invalid syntax: OR at position 1 cannot start a condition.'
         )
       );
     });
 
+    test('should throw an error for missing AND/OR between conditions', () => {
+      condition.col('age').equal(18).col('status').equal('active');
+      expect(() => condition.build()).toThrow(
+        new QueryError('Invalid syntax: Missing AND/OR before position 2.')
+      );
+    });
+
+    test('should throw an error for NOT without a condition', () => {
+      condition.col('age').equal(18).and().not();
+      expect(() => condition.build()).toThrow(
+        new QueryError('Invalid syntax: NOT must be followed by a condition.')
+      );
+    });
+
+    test('should not be tricked by column names or raw conditions', () => {
+      condition
+        .col('ORDER_ID')
+        .equal(1)
+        .and()
+        .raw('note = ? AND )', 'x')
+        .or()
+        .col('OR_flag')
+        .equal(0);
+
+      expect(condition.build()).toBe(
+        '`ORDER_ID` = ? AND note = ? AND ) OR `OR_flag` = ?'
+      );
+    });
+
     test('should throw an error if condition string is empty', () => {
       expect(() => condition.build()).toThrow(
         new QueryError('Invalid syntax: Condition cannot be empty.')
@@ -367,14 +604,14 @@ describe('Condition', () => {
   describe('raw', () => {
     test('should add a valid raw SQL condition with values', () => {
       condition.raw('age > ? AND status = ?', 18, 'active');
-      expect(condition.stack).toContain('age > ? AND status = ?');
-      expect(condition.query.values).toEqual([18, 'active']);
+      expect(condition.build()).toBe('age > ? AND status = ?');
+      expect(condition.values()).toEqual([18, 'active']);
     });
 
     test('should add a valid raw SQL condition without values', () => {
       condition.raw('age > 18');
-      expect(condition.stack).toContain('age > 18');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('age > 18');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error if condition is not a string', () => {
@@ -391,13 +628,134 @@ describe('Condition', () => {
 
     test('should add condition when values array is empty', () => {
       condition.raw('age > ?');
-      expect(condition.stack).toContain('age > ?');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('age > ?');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should correctly add multiple valid values to the query values array', () => {
       condition.raw('age > ? AND name = ?', 25, 'John');
-      expect(condition.query.values).toEqual([25, 'John']);
+      expect(condition.values()).toEqual([25, 'John']);
+    });
+  });
+
+  describe('filter', () => {
+    test('should map values, arrays and null', () => {
+      condition.filter({
+        status: 'active',
+        role: ['admin', 'editor'],
+        deleted_at: null,
+      });
+
+      expect(condition.build()).toBe(
+        '`status` = ? AND `role` IN (?, ?) AND `deleted_at` IS NULL'
+      );
+
+      expect(condition.values()).toEqual(['active', 'admin', 'editor']);
+    });
+
+    test('should map operator objects', () => {
+      condition.filter({
+        age: { gte: 18, lt: 65 },
+        score: { gt: 1, lte: 10, ne: 5 },
+        name: { eq: 'John', like: 'J%' },
+        id: { in: [1, 2], notIn: [3] },
+        created_at: { between: ['2024-01-01', '2024-12-31'] },
+        deleted_at: { null: false },
+        banned_at: { null: true },
+      });
+
+      expect(condition.build()).toBe(
+        '`age` >= ? AND `age` < ? AND ' +
+          '`score` > ? AND `score` <= ? AND NOT `score` = ? AND ' +
+          '`name` = ? AND `name` LIKE ? AND ' +
+          '`id` IN (?, ?) AND NOT `id` IN (?) AND ' +
+          '`created_at` BETWEEN ? AND ? AND ' +
+          '`deleted_at` IS NOT NULL AND `banned_at` IS NULL'
+      );
+
+      expect(condition.values()).toEqual([
+        18,
+        65,
+        1,
+        10,
+        5,
+        'John',
+        'J%',
+        1,
+        2,
+        3,
+        '2024-01-01',
+        '2024-12-31',
+      ]);
+    });
+
+    test('should bind objects that are not plain objects as values', () => {
+      const uuid = Buffer.from('0a1b', 'hex');
+      const date = new Date('2024-01-01T00:00:00.000Z');
+
+      const age = Object.assign(Object.create(null), { gt: 18 });
+
+      condition.filter({ uuid, created_at: date, age });
+
+      expect(condition.build()).toBe(
+        '`uuid` = ? AND `created_at` = ? AND `age` > ?'
+      );
+      expect(condition.values()).toEqual([uuid, date, 18]);
+    });
+
+    test('should compile to the same calls as the condition methods', () => {
+      const manual = standalone((col) =>
+        col('status').equal('active').and().col('age').greaterThan(18)
+      );
+
+      condition.filter({ status: 'active', age: { gt: 18 } });
+      expect(condition.tree()).toEqual(manual.tree());
+    });
+
+    test('should throw for invalid filters', () => {
+      expect(() => condition.filter({})).toThrow(
+        new QueryError('Invalid filters: [object Object]')
+      );
+
+      expect(() => condition.filter('status' as any)).toThrow(
+        new QueryError('Invalid filters: status')
+      );
+
+      expect(() => condition.filter({ age: {} })).toThrow(
+        new QueryError('Invalid filter for column: age')
+      );
+
+      expect(() => condition.filter({ age: { over: 18 } as any })).toThrow(
+        new QueryError('Invalid filter operator: over')
+      );
+    });
+
+    test('should throw for invalid operator values', () => {
+      expect(() => condition.filter({ id: { in: 1 as any } })).toThrow(
+        new QueryError('Invalid IN filter: 1')
+      );
+
+      expect(() => condition.filter({ id: { notIn: 1 as any } })).toThrow(
+        new QueryError('Invalid NOT IN filter: 1')
+      );
+
+      expect(() => condition.filter({ age: { between: [1] as any } })).toThrow(
+        new QueryError('Invalid BETWEEN filter: 1')
+      );
+
+      expect(() => condition.filter({ age: { null: 1 as any } })).toThrow(
+        new QueryError('Invalid NULL filter: 1')
+      );
+    });
+
+    test('should validate values like the condition methods', () => {
+      expect(() => condition.filter({ age: undefined })).toThrow(
+        new QueryError('Invalid value: undefined')
+      );
+
+      expect(() => condition.filter({ role: [] })).toThrow(
+        new QueryError('Values array cannot be empty for IN clause')
+      );
     });
   });
 
@@ -411,26 +769,269 @@ describe('Condition', () => {
   describe('open / close', () => {
     it('should add opening and closing parentheses to stack', () => {
       condition.open().col('age').lessThan('18').close();
-      expect(condition.build()).toBe('(age < ?)');
+      expect(condition.build()).toBe('(`age` < ?)');
+    });
+
+    it('should throw when closing a group that was never opened', () => {
+      expect(() => condition.col('age').lessThan(18).close()).toThrow(
+        new QueryError('Syntax error: Unmatched parentheses.')
+      );
+    });
+  });
+
+  describe('tree', () => {
+    it('should expose the condition as a typed node tree', () => {
+      condition
+        .col('age')
+        .greaterThan(18)
+        .and()
+        .open()
+        .not()
+        .col('status')
+        .in('banned', 'deleted')
+        .or()
+        .raw('score > ?', 10)
+        .close();
+
+      expect(condition.tree()).toEqual({
+        type: 'group',
+        position: 0,
+        nodes: [
+          {
+            type: 'comparison',
+            position: 1,
+            column: 'age',
+            operator: '>',
+            operands: [18],
+            extract: undefined,
+          },
+          { type: 'logical', position: 2, operator: 'AND' },
+          {
+            type: 'group',
+            position: 3,
+            nodes: [
+              {
+                type: 'not',
+                position: 4,
+                node: {
+                  type: 'comparison',
+                  position: 4,
+                  column: 'status',
+                  operator: 'IN',
+                  operands: ['banned', 'deleted'],
+                  extract: undefined,
+                },
+              },
+              { type: 'logical', position: 5, operator: 'OR' },
+              { type: 'raw', position: 6, sql: 'score > ?', values: [10] },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe('clone', () => {
+    it('should copy the condition without sharing its nodes', () => {
+      condition.col('age').greaterThan(18);
+
+      const copy = condition.clone(query);
+      copy.and().col('status').equal('active');
+
+      expect(copy).toBeInstanceOf(Condition);
+      expect(condition.build()).toBe('`age` > ?');
+      expect(copy.build()).toBe('`age` > ? AND `status` = ?');
+      expect(condition.values()).toEqual([18]);
+      expect(copy.values()).toEqual([18, 'active']);
+    });
+
+    it('should keep the opened groups consistent', () => {
+      condition.col('age').greaterThan(18).and().open().col('role').equal(1);
+
+      const copy = condition.clone(query);
+      copy.or().col('role').equal(2).close();
+      condition.close();
+
+      expect(condition.build()).toBe('`age` > ? AND (`role` = ?)');
+      expect(copy.build()).toBe('`age` > ? AND (`role` = ? OR `role` = ?)');
+      expect(copy.tree().nodes[2]).not.toBe(condition.tree().nodes[2]);
+    });
+
+    it('should keep a pending negation and the current column', () => {
+      condition.col('id').equal(1).and().not();
+
+      const copy = condition.clone(query);
+      copy.col('id').in(2, 3);
+
+      expect(copy.build()).toBe('`id` = ? AND NOT `id` IN (?, ?)');
+      expect(() => condition.build()).toThrow(
+        'NOT must be followed by a condition'
+      );
+    });
+
+    it('should create standalone copies', () => {
+      const copy = condition.col('id').equal(1).clone();
+
+      expect(() => copy.build()).toThrow(
+        'Standalone conditions must be compiled with a connection'
+      );
+      expect(copy.build(mock.connection())).toBe('`id` = ?');
+    });
+
+    it('should throw for an invalid query', () => {
+      expect(() => condition.clone({} as any)).toThrow(
+        'Invalid query instance: [object Object]'
+      );
+    });
+  });
+
+  describe('group', () => {
+    test('should wrap the grouped conditions in parentheses', () => {
+      condition
+        .col('age')
+        .greaterThan(18)
+        .and()
+        .group((col) =>
+          col('role').equal('admin').or().col('role').equal('editor')
+        );
+
+      expect(condition.build()).toBe(
+        '`age` > ? AND (`role` = ? OR `role` = ?)'
+      );
+      expect(condition.values()).toEqual([18, 'admin', 'editor']);
+    });
+
+    test('should nest groups to any depth', () => {
+      condition.group((col, con) =>
+        con
+          .group((col) => col('a').equal(1).or().col('b').equal(2))
+          .and()
+          .group((col, con) =>
+            con.notGroup((col) => col('c').equal(3).or().col('d').equal(4))
+          )
+      );
+
+      expect(condition.build()).toBe(
+        '((`a` = ? OR `b` = ?) AND (NOT (`c` = ? OR `d` = ?)))'
+      );
+      expect(condition.values()).toEqual([1, 2, 3, 4]);
+    });
+
+    test('should add the logical operator only after a condition', () => {
+      condition
+        .andGroup((col) => col('a').equal(1).or().col('b').equal(2))
+        .orGroup((col) => col('c').equal(3).and().col('d').equal(4))
+        .andGroup((col, con) => con.orGroup((col) => col('e').equal(5)));
+
+      expect(condition.build()).toBe(
+        '(`a` = ? OR `b` = ?) OR (`c` = ? AND `d` = ?) AND ((`e` = ?))'
+      );
+    });
+
+    test('should negate a group', () => {
+      condition
+        .col('active')
+        .equal(1)
+        .and()
+        .notGroup((col) =>
+          col('role').equal('guest').or().col('age').lessThan(18)
+        );
+
+      expect(condition.build()).toBe(
+        '`active` = ? AND NOT (`role` = ? OR `age` < ?)'
+      );
+
+      const negated = new Condition(query);
+      negated.not().group((col) => col('a').equal(1));
+      expect(negated.build()).toBe('NOT (`a` = ?)');
+    });
+
+    test('should add groups to the node tree', () => {
+      condition.notGroup((col) => col('a').equal(1));
+
+      expect(condition.tree()).toEqual({
+        type: 'group',
+        position: 0,
+        nodes: [
+          {
+            type: 'not',
+            position: 1,
+            node: {
+              type: 'group',
+              position: 1,
+              nodes: [
+                {
+                  type: 'comparison',
+                  position: 2,
+                  column: 'a',
+                  operator: '=',
+                  operands: [1],
+                  extract: undefined,
+                },
+              ],
+            },
+          },
+        ],
+      });
+    });
+
+    test('should throw for invalid groups right away', () => {
+      expect(() => condition.group('x' as any)).toThrow(
+        new QueryError('Invalid group callback: x')
+      );
+
+      expect(() => condition.group(() => {})).toThrow(
+        new QueryError('Invalid syntax: Empty group at position 1.')
+      );
+
+      expect(() =>
+        new Condition(query).group((col, con) => con.open().col('a').equal(1))
+      ).toThrow(new QueryError('Syntax error: Unmatched parentheses.'));
+
+      expect(() =>
+        new Condition(query).notGroup((col) => col('a').equal(1).and())
+      ).not.toThrow();
+    });
+
+    test('should validate negated groups when built', () => {
+      condition.notGroup((col) => col('a').equal(1).and());
+
+      expect(() => condition.build()).toThrow(
+        new QueryError(
+          'Invalid syntax: AND at position 3 precedes a closing group.'
+        )
+      );
+    });
+
+    test('should be cloned', () => {
+      condition.notGroup((col) => col('a').equal(1));
+
+      const copy = condition.clone();
+      copy.and().group((col) => col('b').equal(2));
+
+      const con = mock.connection();
+
+      expect(condition.build(con)).toBe('NOT (`a` = ?)');
+      expect(copy.build(con)).toBe('NOT (`a` = ?) AND (`b` = ?)');
     });
   });
 
   describe('and / or', () => {
     it('should add AND operator to the stack', () => {
       condition.col('age').lessThan('18').and().col('status').equal('active');
-      expect(condition.build()).toBe('age < ? AND status = ?');
+      expect(condition.build()).toBe('`age` < ? AND `status` = ?');
     });
 
     it('should add OR operator to the stack', () => {
       condition.col('age').lessThan('18').or().col('status').equal('active');
-      expect(condition.build()).toBe('age < ? OR status = ?');
+      expect(condition.build()).toBe('`age` < ? OR `status` = ?');
     });
   });
 
   describe('paren', () => {
     it('should toggle open and close parentheses based on opened count', () => {
       condition.paren().col('age').lessThan(18).paren();
-      expect(condition.build()).toBe('(age < ?)');
+      expect(condition.build()).toBe('(`age` < ?)');
     });
   });
 
@@ -449,15 +1050,15 @@ describe('Condition', () => {
     test('should add a valid date comparison condition', () => {
       condition.column = 'created_at';
       condition.inDate('2023-05-01');
-      expect(condition.stack).toContain('DATE(created_at) = ?');
-      expect(condition.query.values).toEqual(['2023-05-01']);
+      expect(condition.build()).toBe('DATE(`created_at`) = ?');
+      expect(condition.values()).toEqual(['2023-05-01']);
     });
 
     test('should add a valid date comparison condition with a reference', () => {
       condition.column = 'created_at';
       condition.inDate(ref('orders.date'));
-      expect(condition.stack).toContain('DATE(created_at) = orders.date');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('DATE(`created_at`) = `orders`.`date`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for an invalid column', () => {
@@ -475,8 +1076,8 @@ describe('Condition', () => {
       condition.column = 'created_at';
       condition.negate = true;
       condition.inDate('2023-05-01');
-      expect(condition.stack).toContain('NOT DATE(created_at) = ?');
-      expect(condition.query.values).toEqual(['2023-05-01']);
+      expect(condition.build()).toBe('NOT DATE(`created_at`) = ?');
+      expect(condition.values()).toEqual(['2023-05-01']);
     });
   });
 
@@ -488,8 +1089,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inTime('15:30:00');
-      expect(condition.stack).toContain('TIME(created_at) = ?');
-      expect(condition.query.values).toEqual(['15:30:00']);
+      expect(condition.build()).toBe('TIME(`created_at`) = ?');
+      expect(condition.values()).toEqual(['15:30:00']);
     });
 
     test('should add a valid time comparison condition for PostgreSQL', () => {
@@ -499,10 +1100,10 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.pg();
 
       condition.inTime('15:30:00');
-      expect(condition.stack).toContain(
-        "TO_CHAR(created_at, 'HH24:MI:SS') = ?"
+      expect(condition.build()).toBe(
+        'TO_CHAR("created_at", \'HH24:MI:SS\') = ?'
       );
-      expect(condition.query.values).toEqual(['15:30:00']);
+      expect(condition.values()).toEqual(['15:30:00']);
     });
 
     test('should add a valid time comparison condition for SQLite', () => {
@@ -512,8 +1113,10 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.sqlite();
 
       condition.inTime('15:30:00');
-      expect(condition.stack).toContain("STRFTIME('%H:%M:%S', created_at) = ?");
-      expect(condition.query.values).toEqual(['15:30:00']);
+      expect(condition.build()).toBe(
+        'STRFTIME(\'%H:%M:%S\', "created_at") = ?'
+      );
+      expect(condition.values()).toEqual(['15:30:00']);
     });
 
     test('should add a valid time comparison condition with a reference', () => {
@@ -523,8 +1126,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inTime(ref('orders.time'));
-      expect(condition.stack).toContain('TIME(created_at) = orders.time');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('TIME(`created_at`) = `orders`.`time`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for an invalid time', () => {
@@ -543,8 +1146,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inTime('15:30:00');
-      expect(condition.stack).toContain('NOT TIME(created_at) = ?');
-      expect(condition.query.values).toEqual(['15:30:00']);
+      expect(condition.build()).toBe('NOT TIME(`created_at`) = ?');
+      expect(condition.values()).toEqual(['15:30:00']);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -560,8 +1163,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inYear(2023);
-      expect(condition.stack).toContain('YEAR(created_at) = ?');
-      expect(condition.query.values).toEqual([2023]);
+      expect(condition.build()).toBe('YEAR(`created_at`) = ?');
+      expect(condition.values()).toEqual([2023]);
     });
 
     test('should add a valid year comparison condition for PostgreSQL', () => {
@@ -571,8 +1174,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.pg();
 
       condition.inYear(2023);
-      expect(condition.stack).toContain('EXTRACT(YEAR FROM created_at) = ?');
-      expect(condition.query.values).toEqual([2023]);
+      expect(condition.build()).toBe('EXTRACT(YEAR FROM "created_at") = ?');
+      expect(condition.values()).toEqual([2023]);
     });
 
     test('should add a valid year comparison condition for SQLite', () => {
@@ -582,8 +1185,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.sqlite();
 
       condition.inYear(2023);
-      expect(condition.stack).toContain("STRFTIME('%Y', created_at) = ?");
-      expect(condition.query.values).toEqual([2023]);
+      expect(condition.build()).toBe('STRFTIME(\'%Y\', "created_at") = ?');
+      expect(condition.values()).toEqual([2023]);
     });
 
     test('should add a valid year comparison condition with a reference', () => {
@@ -593,8 +1196,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inYear(ref('orders.year'));
-      expect(condition.stack).toContain('YEAR(created_at) = orders.year');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('YEAR(`created_at`) = `orders`.`year`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid year format', () => {
@@ -621,8 +1224,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inYear(2023);
-      expect(condition.stack).toContain('NOT YEAR(created_at) = ?');
-      expect(condition.query.values).toEqual([2023]);
+      expect(condition.build()).toBe('NOT YEAR(`created_at`) = ?');
+      expect(condition.values()).toEqual([2023]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -638,8 +1241,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inMonth(5); // May
-      expect(condition.stack).toContain('MONTH(created_at) = ?');
-      expect(condition.query.values).toEqual([5]);
+      expect(condition.build()).toBe('MONTH(`created_at`) = ?');
+      expect(condition.values()).toEqual([5]);
     });
 
     test('should add a valid month comparison condition for PostgreSQL', () => {
@@ -649,8 +1252,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.pg();
 
       condition.inMonth(5); // May
-      expect(condition.stack).toContain('EXTRACT(MONTH FROM created_at) = ?');
-      expect(condition.query.values).toEqual([5]);
+      expect(condition.build()).toBe('EXTRACT(MONTH FROM "created_at") = ?');
+      expect(condition.values()).toEqual([5]);
     });
 
     test('should add a valid month comparison condition for SQLite', () => {
@@ -660,8 +1263,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.sqlite();
 
       condition.inMonth(5); // May
-      expect(condition.stack).toContain("STRFTIME('%m', created_at) = ?");
-      expect(condition.query.values).toEqual([5]);
+      expect(condition.build()).toBe('STRFTIME(\'%m\', "created_at") = ?');
+      expect(condition.values()).toEqual([5]);
     });
 
     test('should add a valid month comparison condition with a reference', () => {
@@ -671,8 +1274,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inMonth(ref('orders.month')); // May
-      expect(condition.stack).toContain('MONTH(created_at) = orders.month');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('MONTH(`created_at`) = `orders`.`month`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid month value', () => {
@@ -699,8 +1302,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inMonth(5);
-      expect(condition.stack).toContain('NOT MONTH(created_at) = ?');
-      expect(condition.query.values).toEqual([5]);
+      expect(condition.build()).toBe('NOT MONTH(`created_at`) = ?');
+      expect(condition.values()).toEqual([5]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -716,8 +1319,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inDay(15); // 15th day of the month
-      expect(condition.stack).toContain('DAY(created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('DAY(`created_at`) = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should add a valid day comparison condition for PostgreSQL', () => {
@@ -727,8 +1330,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.pg();
 
       condition.inDay(15); // 15th day of the month
-      expect(condition.stack).toContain('EXTRACT(DAY FROM created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('EXTRACT(DAY FROM "created_at") = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should add a valid day comparison condition for SQLite', () => {
@@ -738,8 +1341,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.sqlite();
 
       condition.inDay(15); // 15th day of the month
-      expect(condition.stack).toContain("STRFTIME('%d', created_at) = ?");
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('STRFTIME(\'%d\', "created_at") = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should add a valid day comparison condition with a reference', () => {
@@ -749,8 +1352,8 @@ describe('Condition', () => {
       condition.query.connection.driver = mock.mysql();
 
       condition.inDay(ref('orders.day')); // May
-      expect(condition.stack).toContain('DAY(created_at) = orders.day');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('DAY(`created_at`) = `orders`.`day`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid day value', () => {
@@ -775,8 +1378,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inDay(15);
-      expect(condition.stack).toContain('NOT DAY(created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('NOT DAY(`created_at`) = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -791,8 +1394,8 @@ describe('Condition', () => {
 
       condition.inHour(12);
 
-      expect(condition.stack).toContain('HOUR(created_at) = ?');
-      expect(condition.query.values).toEqual([12]);
+      expect(condition.build()).toBe('HOUR(`created_at`) = ?');
+      expect(condition.values()).toEqual([12]);
     });
 
     test('should add a valid hour comparison condition for PostgreSQL', () => {
@@ -801,8 +1404,8 @@ describe('Condition', () => {
 
       condition.inHour(12);
 
-      expect(condition.stack).toContain('EXTRACT(HOUR FROM created_at) = ?');
-      expect(condition.query.values).toEqual([12]);
+      expect(condition.build()).toBe('EXTRACT(HOUR FROM "created_at") = ?');
+      expect(condition.values()).toEqual([12]);
     });
 
     test('should add a valid hour comparison condition for SQLite', () => {
@@ -811,8 +1414,8 @@ describe('Condition', () => {
 
       condition.inHour(12);
 
-      expect(condition.stack).toContain("STRFTIME('%H', created_at) = ?");
-      expect(condition.query.values).toEqual([12]);
+      expect(condition.build()).toBe('STRFTIME(\'%H\', "created_at") = ?');
+      expect(condition.values()).toEqual([12]);
     });
 
     test('should add a valid hour comparison condition with a reference', () => {
@@ -821,8 +1424,8 @@ describe('Condition', () => {
 
       condition.inHour(ref('orders.hour'));
 
-      expect(condition.stack).toContain('HOUR(created_at) = orders.hour');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe('HOUR(`created_at`) = `orders`.`hour`');
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid hour value', () => {
@@ -849,8 +1452,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inHour(15);
-      expect(condition.stack).toContain('NOT HOUR(created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('NOT HOUR(`created_at`) = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -865,8 +1468,8 @@ describe('Condition', () => {
 
       condition.inMinute(34);
 
-      expect(condition.stack).toContain('MINUTE(created_at) = ?');
-      expect(condition.query.values).toEqual([34]);
+      expect(condition.build()).toBe('MINUTE(`created_at`) = ?');
+      expect(condition.values()).toEqual([34]);
     });
 
     test('should add a valid minute comparison condition for PostgreSQL', () => {
@@ -875,8 +1478,8 @@ describe('Condition', () => {
 
       condition.inMinute(34);
 
-      expect(condition.stack).toContain('EXTRACT(MINUTE FROM created_at) = ?');
-      expect(condition.query.values).toEqual([34]);
+      expect(condition.build()).toBe('EXTRACT(MINUTE FROM "created_at") = ?');
+      expect(condition.values()).toEqual([34]);
     });
 
     test('should add a valid minute comparison condition for SQLite', () => {
@@ -885,8 +1488,8 @@ describe('Condition', () => {
 
       condition.inMinute(34);
 
-      expect(condition.stack).toContain("STRFTIME('%M', created_at) = ?");
-      expect(condition.query.values).toEqual([34]);
+      expect(condition.build()).toBe('STRFTIME(\'%M\', "created_at") = ?');
+      expect(condition.values()).toEqual([34]);
     });
 
     test('should add a valid minute comparison condition with a reference', () => {
@@ -896,8 +1499,10 @@ describe('Condition', () => {
 
       condition.inMinute(ref('orders.minute'));
 
-      expect(condition.stack).toContain('MINUTE(created_at) = orders.minute');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe(
+        'MINUTE(`created_at`) = `orders`.`minute`'
+      );
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid minute value', () => {
@@ -924,8 +1529,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inMinute(15);
-      expect(condition.stack).toContain('NOT MINUTE(created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('NOT MINUTE(`created_at`) = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -940,8 +1545,8 @@ describe('Condition', () => {
 
       condition.inSecond(56);
 
-      expect(condition.stack).toContain('SECOND(created_at) = ?');
-      expect(condition.query.values).toEqual([56]);
+      expect(condition.build()).toBe('SECOND(`created_at`) = ?');
+      expect(condition.values()).toEqual([56]);
     });
 
     test('should add a valid second comparison condition for PostgreSQL', () => {
@@ -950,8 +1555,8 @@ describe('Condition', () => {
 
       condition.inSecond(56);
 
-      expect(condition.stack).toContain('EXTRACT(SECOND FROM created_at) = ?');
-      expect(condition.query.values).toEqual([56]);
+      expect(condition.build()).toBe('EXTRACT(SECOND FROM "created_at") = ?');
+      expect(condition.values()).toEqual([56]);
     });
 
     test('should add a valid second comparison condition for SQLite', () => {
@@ -960,8 +1565,8 @@ describe('Condition', () => {
 
       condition.inSecond(56);
 
-      expect(condition.stack).toContain("STRFTIME('%S', created_at) = ?");
-      expect(condition.query.values).toEqual([56]);
+      expect(condition.build()).toBe('STRFTIME(\'%S\', "created_at") = ?');
+      expect(condition.values()).toEqual([56]);
     });
 
     test('should add a valid second comparison condition with a reference', () => {
@@ -971,8 +1576,10 @@ describe('Condition', () => {
 
       condition.inSecond(ref('orders.second'));
 
-      expect(condition.stack).toContain('SECOND(created_at) = orders.second');
-      expect(condition.query.values).toEqual([]);
+      expect(condition.build()).toBe(
+        'SECOND(`created_at`) = `orders`.`second`'
+      );
+      expect(condition.values()).toEqual([]);
     });
 
     test('should throw an error for invalid second value', () => {
@@ -999,8 +1606,8 @@ describe('Condition', () => {
 
       condition.negate = true;
       condition.inSecond(15);
-      expect(condition.stack).toContain('NOT SECOND(created_at) = ?');
-      expect(condition.query.values).toEqual([15]);
+      expect(condition.build()).toBe('NOT SECOND(`created_at`) = ?');
+      expect(condition.values()).toEqual([15]);
     });
 
     test('should throw an error for invalid column name', () => {
@@ -1011,8 +1618,8 @@ describe('Condition', () => {
   describe('equal', () => {
     it('should generate the correct equality condition for numbers', () => {
       const query = condition.col('age').equal(30).build();
-      expect(query).toBe('age = ?');
-      expect(condition.query.values).toEqual([30]);
+      expect(query).toBe('`age` = ?');
+      expect(condition.values()).toEqual([30]);
     });
 
     it('should generate the correct equality condition with a reference', () => {
@@ -1020,13 +1627,13 @@ describe('Condition', () => {
         .col('users.id')
         .equal(ref('profiles.user_id'))
         .build();
-      expect(query).toBe('users.id = profiles.user_id');
-      expect(condition.query.values).toEqual([]);
+      expect(query).toBe('`users`.`id` = `profiles`.`user_id`');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should generate the correct equality condition for strings', () => {
       const query = condition.col('username').equal('JohnDoe').build();
-      expect(query).toBe('username = ?');
+      expect(query).toBe('`username` = ?');
     });
 
     it('should throw an error for invalid value type', () => {
@@ -1041,20 +1648,119 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for equal', () => {
       const query = condition.col('age').not().equal(30).build();
-      expect(query).toBe('NOT age = ?');
+      expect(query).toBe('NOT `age` = ?');
+    });
+  });
+
+  describe('values', () => {
+    it('should accept empty strings', () => {
+      condition.col('name').equal('').or().col('nickname').in('', 'none');
+
+      expect(condition.build()).toBe('`name` = ? OR `nickname` IN (?, ?)');
+      expect(condition.values()).toEqual(['', '', 'none']);
+    });
+
+    it('should compile equal(null) to IS NULL', () => {
+      condition
+        .col('deleted_at')
+        .equal(null)
+        .and()
+        .not()
+        .col('email')
+        .equal(null);
+
+      expect(condition.build()).toBe(
+        '`deleted_at` IS NULL AND `email` IS NOT NULL'
+      );
+      expect(condition.values()).toEqual([]);
+    });
+
+    it('should bind booleans as 1 or 0 in MySQL and SQLite', () => {
+      condition.col('active').equal(true).and().col('banned').equal(false);
+
+      expect(condition.values()).toEqual([1, 0]);
+
+      condition.query.connection.driver = mock.sqlite();
+      expect(condition.values()).toEqual([1, 0]);
+
+      condition.query.connection.driver = mock.pg();
+      expect(condition.values()).toEqual([true, false]);
+    });
+
+    it('should bind dates as ISO strings in SQLite', () => {
+      const date = new Date('2024-05-01T10:00:00.000Z');
+
+      condition
+        .col('created_at')
+        .greaterThan(date)
+        .and()
+        .col('updated_at')
+        .between(date, date);
+
+      expect(condition.values()).toEqual([date, date, date]);
+
+      condition.query.connection.driver = mock.sqlite();
+      expect(condition.values()).toEqual([
+        '2024-05-01 10:00:00',
+        '2024-05-01 10:00:00',
+        '2024-05-01 10:00:00',
+      ]);
+    });
+
+    it('should bind bigints as is', () => {
+      const id = BigInt('9007199254740993');
+
+      condition.col('id').lessThanOrEqual(id).or().raw('parent_id = ?', id);
+
+      expect(condition.build()).toBe('`id` <= ? OR parent_id = ?');
+      expect(condition.values()).toEqual([id, id]);
+    });
+
+    it('should throw for invalid values', () => {
+      expect(() => condition.col('age').lessThan(null)).toThrow(
+        new QueryError('Invalid value: null')
+      );
+
+      expect(() => condition.col('age').in(1, null)).toThrow(
+        new QueryError('Invalid value: null')
+      );
+
+      expect(() => condition.col('at').equal(new Date('invalid'))).toThrow(
+        new QueryError('Invalid value: Invalid Date')
+      );
+
+      expect(() => condition.col('age').equal({} as any)).toThrow(
+        new QueryError('Invalid value: [object Object]')
+      );
+    });
+
+    it('should accept the new values in filters', () => {
+      const date = new Date('2024-05-01T10:00:00.000Z');
+
+      condition.filter({
+        active: true,
+        created_at: date,
+        id: { gt: BigInt(10) },
+        deleted_at: { ne: null },
+      });
+
+      expect(condition.build()).toBe(
+        '`active` = ? AND `created_at` = ? AND `id` > ? AND `deleted_at` IS NOT NULL'
+      );
+      expect(condition.values()).toEqual([1, date, BigInt(10)]);
     });
   });
 
   describe('lessThan', () => {
     it('should generate the correct less-than condition for numbers', () => {
       const query = condition.col('price').lessThan(100).build();
-      expect(query).toBe('price < ?');
-      expect(condition.query.values).toEqual([100]);
+      expect(query).toBe('`price` < ?');
+      expect(condition.values()).toEqual([100]);
     });
 
     it('should generate the correct less-than condition for date strings', () => {
       const query = condition.col('order_date').lessThan('2023-01-01').build();
-      expect(query).toBe('order_date < ?');
+      expect(query).toBe('`order_date` < ?');
     });
 
     it('should generate the correct less-than condition with a reference', () => {
@@ -1062,8 +1768,8 @@ describe('Condition', () => {
         .col('price')
         .lessThan(ref('table.column'))
         .build();
-      expect(query).toBe('price < table.column');
-      expect(condition.query.values).toEqual([]);
+      expect(query).toBe('`price` < `table`.`column`');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error for invalid value type', () => {
@@ -1078,29 +1784,29 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for lessThan', () => {
       const query = condition.col('price').not().lessThan(100).build();
-      expect(query).toBe('NOT price < ?');
+      expect(query).toBe('NOT `price` < ?');
     });
   });
 
   describe('lessThanOrEqual', () => {
     it('should generate the correct less-than-or-equal condition for numbers', () => {
       expect(condition.col('stock').lessThanOrEqual(50).build()).toBe(
-        'stock <= ?'
+        '`stock` <= ?'
       );
-      expect(condition.query.values).toEqual([50]);
+      expect(condition.values()).toEqual([50]);
     });
 
     it('should generate the correct less-than-or-equal condition for date strings', () => {
       expect(
         condition.col('order_date').lessThanOrEqual('2023-01-01').build()
-      ).toBe('order_date <= ?');
+      ).toBe('`order_date` <= ?');
     });
 
     it('should generate the correct less-than-or-equal condition with a reference', () => {
       expect(
         condition.col('stock').lessThanOrEqual(ref('table.column')).build()
-      ).toBe('stock <= table.column');
-      expect(condition.query.values).toEqual([]);
+      ).toBe('`stock` <= `table`.`column`');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error for invalid value type', () => {
@@ -1115,29 +1821,29 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for lessThanOrEqual', () => {
       const query = condition.col('stock').not().lessThanOrEqual(50).build();
-      expect(query).toBe('NOT stock <= ?');
+      expect(query).toBe('NOT `stock` <= ?');
     });
   });
 
   describe('greaterThan', () => {
     it('should generate the correct greater-than condition for numbers', () => {
       expect(condition.col('salary').greaterThan(50000).build()).toBe(
-        'salary > ?'
+        '`salary` > ?'
       );
-      expect(condition.query.values).toEqual([50000]);
+      expect(condition.values()).toEqual([50000]);
     });
 
     it('should generate the correct greater-than condition for date strings', () => {
       expect(
         condition.col('start_date').greaterThan('2023-01-01').build()
-      ).toBe('start_date > ?');
+      ).toBe('`start_date` > ?');
     });
 
     it('should generate the correct greater-than condition with a reference', () => {
       expect(
         condition.col('salary').greaterThan(ref('table.column')).build()
-      ).toBe('salary > table.column');
-      expect(condition.query.values).toEqual([]);
+      ).toBe('`salary` > `table`.`column`');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error for invalid value type', () => {
@@ -1152,31 +1858,31 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for greaterThan', () => {
       const query = condition.col('salary').not().greaterThan(50000).build();
-      expect(query).toBe('NOT salary > ?');
+      expect(query).toBe('NOT `salary` > ?');
     });
   });
 
   describe('greaterThanOrEqual', () => {
     it('should generate the correct greater-than-or-equal condition for numbers', () => {
       expect(condition.col('age').greaterThanOrEqual(18).build()).toBe(
-        'age >= ?'
+        '`age` >= ?'
       );
 
-      expect(condition.query.values).toEqual([18]);
+      expect(condition.values()).toEqual([18]);
     });
 
     it('should generate the correct greater-than-or-equal condition for date strings', () => {
       expect(
         condition.col('signup_date').greaterThanOrEqual('2023-01-01').build()
-      ).toBe('signup_date >= ?');
+      ).toBe('`signup_date` >= ?');
     });
 
     it('should generate the correct greater-than-or-equal condition with a reference', () => {
       expect(
         condition.col('age').greaterThanOrEqual(ref('table.column')).build()
-      ).toBe('age >= table.column');
+      ).toBe('`age` >= `table`.`column`');
 
-      expect(condition.query.values).toEqual([]);
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error for invalid value type', () => {
@@ -1193,15 +1899,15 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for greaterThanOrEqual', () => {
       const query = condition.col('age').not().greaterThanOrEqual(18).build();
-      expect(query).toBe('NOT age >= ?');
+      expect(query).toBe('NOT `age` >= ?');
     });
   });
 
   describe('between', () => {
     it('should generate the correct BETWEEN condition for numbers', () => {
       const query = condition.col('price').between(100, 200).build();
-      expect(query).toBe('price BETWEEN ? AND ?');
-      expect(condition.query.values).toEqual([100, 200]);
+      expect(query).toBe('`price` BETWEEN ? AND ?');
+      expect(condition.values()).toEqual([100, 200]);
     });
 
     it('should generate the correct BETWEEN condition for string values', () => {
@@ -1209,8 +1915,8 @@ describe('Condition', () => {
         .col('created_at')
         .between('2023-01-01', '2023-12-31')
         .build();
-      expect(query).toBe('created_at BETWEEN ? AND ?');
-      expect(condition.query.values).toEqual(['2023-01-01', '2023-12-31']);
+      expect(query).toBe('`created_at` BETWEEN ? AND ?');
+      expect(condition.values()).toEqual(['2023-01-01', '2023-12-31']);
     });
 
     it('should generate the correct BETWEEN condition with a reference', () => {
@@ -1218,8 +1924,10 @@ describe('Condition', () => {
         .col('price')
         .between(ref('table.column'), ref('table.column'))
         .build();
-      expect(query).toBe('price BETWEEN table.column AND table.column');
-      expect(condition.query.values).toEqual([]);
+      expect(query).toBe(
+        '`price` BETWEEN `table`.`column` AND `table`.`column`'
+      );
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error if the start value is invalid', () => {
@@ -1244,15 +1952,15 @@ describe('Condition', () => {
         .not()
         .between('2023-01-01', '2023-12-31')
         .build();
-      expect(query).toBe('NOT created_at BETWEEN ? AND ?');
+      expect(query).toBe('NOT `created_at` BETWEEN ? AND ?');
     });
   });
 
   describe('in', () => {
     it('should generate the correct IN condition for numbers', () => {
       const query = condition.col('id').in(1, 2, 3).build();
-      expect(query).toBe('id IN (?, ?, ?)');
-      expect(condition.query.values).toEqual([1, 2, 3]);
+      expect(query).toBe('`id` IN (?, ?, ?)');
+      expect(condition.values()).toEqual([1, 2, 3]);
     });
 
     it('should generate the correct IN condition for strings', () => {
@@ -1260,14 +1968,14 @@ describe('Condition', () => {
         .col('status')
         .in('active', 'pending', 'inactive')
         .build();
-      expect(query).toBe('status IN (?, ?, ?)');
-      expect(condition.query.values).toEqual(['active', 'pending', 'inactive']);
+      expect(query).toBe('`status` IN (?, ?, ?)');
+      expect(condition.values()).toEqual(['active', 'pending', 'inactive']);
     });
 
     it('should generate the correct IN condition with a reference', () => {
       const query = condition.col('id').in(ref('table.column'), 2, 3).build();
-      expect(query).toBe('id IN (table.column, ?, ?)');
-      expect(condition.query.values).toEqual([2, 3]);
+      expect(query).toBe('`id` IN (`table`.`column`, ?, ?)');
+      expect(condition.values()).toEqual([2, 3]);
     });
 
     it('should throw an error if the values array is empty', () => {
@@ -1292,7 +2000,7 @@ describe('Condition', () => {
         .not()
         .in('active', 'pending', 'inactive')
         .build();
-      expect(query).toBe('NOT status IN (?, ?, ?)');
+      expect(query).toBe('NOT `status` IN (?, ?, ?)');
     });
   });
 
@@ -1306,8 +2014,10 @@ describe('Condition', () => {
       };
 
       const query = condition.col('user_id').inSubquery(subquery).build();
-      expect(query).toBe('user_id IN (SELECT id FROM users WHERE status = ?)');
-      expect(condition.query.values).toEqual(['active']);
+      expect(query).toBe(
+        '`user_id` IN (SELECT `id` FROM `users` WHERE `status` = ?)'
+      );
+      expect(condition.values()).toEqual(['active']);
     });
 
     it('should throw an error if the subquery is not a function', () => {
@@ -1334,7 +2044,7 @@ describe('Condition', () => {
         })
         .build();
       expect(query).toBe(
-        'NOT user_id IN (SELECT id FROM users WHERE status = ?)'
+        'NOT `user_id` IN (SELECT `id` FROM `users` WHERE `status` = ?)'
       );
     });
   });
@@ -1342,14 +2052,14 @@ describe('Condition', () => {
   describe('like', () => {
     it('should generate the correct LIKE condition', () => {
       const query = condition.col('name').like('%John%').build();
-      expect(query).toBe('name LIKE ?');
-      expect(condition.query.values).toEqual(['%John%']);
+      expect(query).toBe('`name` LIKE ?');
+      expect(condition.values()).toEqual(['%John%']);
     });
 
     it('should generate the correct LIKE condition with a reference', () => {
       const query = condition.col('name').like(ref('table.column')).build();
-      expect(query).toBe('name LIKE table.column');
-      expect(condition.query.values).toEqual([]);
+      expect(query).toBe('`name` LIKE `table`.`column`');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should throw an error if the value is not a non-empty string', () => {
@@ -1370,20 +2080,20 @@ describe('Condition', () => {
 
     it('should handle the NOT condition for like', () => {
       const query = condition.col('name').not().like('%John%').build();
-      expect(query).toBe('NOT name LIKE ?');
+      expect(query).toBe('NOT `name` LIKE ?');
     });
   });
 
   describe('isNull', () => {
     it('should generate the correct IS NULL condition', () => {
       const query = condition.col('email').isNull().build();
-      expect(query).toBe('email IS NULL');
-      expect(condition.query.values).toEqual([]); // No values for IS NULL
+      expect(query).toBe('`email` IS NULL');
+      expect(condition.values()).toEqual([]); // No values for IS NULL
     });
 
     it('should handle the NOT condition when negated', () => {
       const query = condition.col('email').not().isNull().build();
-      expect(query).toBe('NOT email IS NULL');
+      expect(query).toBe('`email` IS NOT NULL');
     });
 
     it('should throw an error for invalid column name', () => {
@@ -1400,8 +2110,8 @@ describe('Condition', () => {
       };
 
       const query = condition.col('user_id').exists(subquery).build();
-      expect(query).toBe('EXISTS (SELECT * FROM users WHERE status = ?)');
-      expect(condition.query.values).toEqual(['active']);
+      expect(query).toBe('EXISTS (SELECT * FROM `users` WHERE `status` = ?)');
+      expect(condition.values()).toEqual(['active']);
     });
 
     it('should handle the NOT EXISTS condition when negated', () => {
@@ -1410,8 +2120,10 @@ describe('Condition', () => {
       };
 
       const query = condition.col('user_id').not().exists(subquery).build();
-      expect(query).toBe('NOT EXISTS (SELECT * FROM users WHERE status = ?)');
-      expect(condition.query.values).toEqual(['inactive']);
+      expect(query).toBe(
+        'NOT EXISTS (SELECT * FROM `users` WHERE `status` = ?)'
+      );
+      expect(condition.values()).toEqual(['inactive']);
     });
 
     it('should throw an error if the subquery is not a function', () => {
@@ -1428,8 +2140,8 @@ describe('Condition', () => {
       };
 
       const query = condition.col('age').any(MORE, subquery).build();
-      expect(query).toBe('age > ANY (SELECT age FROM users)');
-      expect(condition.query.values).toEqual([]);
+      expect(query).toBe('`age` > ANY (SELECT `age` FROM `users`)');
+      expect(condition.values()).toEqual([]);
     });
 
     it('should handle the NOT ANY condition when negated', () => {
@@ -1438,7 +2150,7 @@ describe('Condition', () => {
       };
 
       const query = condition.col('age').not().any(MORE, subquery).build();
-      expect(query).toBe('NOT age > ANY (SELECT age FROM users)');
+      expect(query).toBe('NOT `age` > ANY (SELECT `age` FROM `users`)');
     });
 
     it('should throw an error if the operator is invalid', () => {
@@ -1484,9 +2196,11 @@ describe('Condition', () => {
           .col('name')
           .any(EQUAL, subquery)
           .build()
-      ).toBe('status = ? AND name = ANY (SELECT name FROM users WHERE id = ?)');
+      ).toBe(
+        '`status` = ? AND `name` = ANY (SELECT `name` FROM `users` WHERE `id` = ?)'
+      );
 
-      expect(condition.query.values).toEqual(['active', 1]);
+      expect(condition.values()).toEqual(['active', 1]);
     });
   });
 
@@ -1501,33 +2215,33 @@ describe('Condition', () => {
 
       expect(
         new Condition(mock.query()).col('age').all(MORE, subquery).build()
-      ).toBe('age > ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` > ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
 
       expect(
         new Condition(mock.query()).col('age').all(LESS, subquery).build()
-      ).toBe('age < ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` < ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
 
       expect(
         new Condition(mock.query())
           .col('age')
           .all(MORE_OR_EQUAL, subquery)
           .build()
-      ).toBe('age >= ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` >= ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
 
       expect(
         new Condition(mock.query())
           .col('age')
           .all(LESS_OR_EQUAL, subquery)
           .build()
-      ).toBe('age <= ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` <= ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
 
       expect(
         new Condition(mock.query()).col('age').all(EQUAL, subquery).build()
-      ).toBe('age = ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` = ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
 
       expect(
         new Condition(mock.query()).col('age').all(NOT_EQUAL, subquery).build()
-      ).toBe('age != ALL (SELECT age FROM users WHERE id = ?)');
+      ).toBe('`age` != ALL (SELECT `age` FROM `users` WHERE `id` = ?)');
     });
 
     it('should handle the NOT ALL condition when negated', () => {
@@ -1536,7 +2250,7 @@ describe('Condition', () => {
       };
 
       expect(condition.col('age').not().all(EQUAL, subquery).build()).toBe(
-        'NOT age = ALL (SELECT age FROM users)'
+        'NOT `age` = ALL (SELECT `age` FROM `users`)'
       );
     });
 
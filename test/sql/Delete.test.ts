@@ -1,5 +1,5 @@
 import { Delete } from '../../src';
-import { Condition } from '../../src';
+import { Condition, condition } from '../../src';
 import { QueryError } from '@megaorm/errors';
 
 const mock = {
@@ -37,11 +37,105 @@ describe('Delete', () => {
       expect(del.condition).toBeInstanceOf(Condition);
     });
 
+    it('should accept a standalone condition', () => {
+      const expired = condition((col) => col('expires_at').lessThan('2024'));
+
+      expect(del.from('sessions').where(expired).build()).toBe(
+        'DELETE FROM `sessions` WHERE `expires_at` < ?;'
+      );
+      expect(del.get.values()).toEqual(['2024']);
+    });
+
     it('should throw QueryError if condition is not a function', () => {
       expect(() => del.where('invalid' as any)).toThrow(QueryError);
     });
   });
 
+  describe('.where() filters', () => {
+    it('should add object-style filters', () => {
+      del
+        .from('sessions')
+        .where({ user_id: 7 })
+        .andWhere({ revoked_at: { null: false }, expires_at: { lt: '2024' } });
+
+      expect(del.build()).toBe(
+        'DELETE FROM `sessions` WHERE `user_id` = ? AND (`revoked_at` IS NOT NULL AND `expires_at` < ?);'
+      );
+      expect(del.get.values()).toEqual([7, '2024']);
+    });
+  });
+
+  describe('.andWhere() & .orWhere()', () => {
+    it('should skip the logical operator for the first condition', () => {
+      del.from('users').orWhere((col: any) => col('id').equal(1));
+
+      expect(del.build()).toBe('DELETE FROM `users` WHERE `id` = ?;');
+    });
+
+    it('should add the logical operator and group the condition', () => {
+      del
+        .from('sessions')
+        .andWhere((col: any) => col('user_id').equal(7))
+        .andWhere((col: any) =>
+          col('expires_at').lessThan('2024').or().col('revoked').equal(1)
+        );
+
+      expect(del.build()).toBe(
+        'DELETE FROM `sessions` WHERE `user_id` = ? AND (`expires_at` < ? OR `revoked` = ?);'
+      );
+      expect(del.get.values()).toEqual([7, '2024', 1]);
+    });
+
+    it('should group an OR condition that comes first', () => {
+      del
+        .from('users')
+        .andWhere((col: any) => col('a').equal(1).or().col('b').equal(2))
+        .andWhere((col: any) => col('c').equal(3));
+
+      expect(del.build()).toBe(
+        'DELETE FROM `users` WHERE (`a` = ? OR `b` = ?) AND `c` = ?;'
+      );
+    });
+
+    it('should throw QueryError if condition is not a function', () => {
+      expect(() => del.andWhere('invalid')).toThrow(
+        'Invalid DELETE condition: invalid'
+      );
+
+      expect(() => del.orWhere('invalid')).toThrow(
+        'Invalid DELETE condition: invalid'
+      );
+    });
+  });
+
+  describe('.group()', () => {
+    it('should add groups to the WHERE clause', () => {
+      del
+        .from('users')
+        .group((col: any) =>
+          col('role').equal('guest').or().col('role').equal('trial')
+        )
+        .andGroup((col: any) => col('age').lessThan(18))
+        .orGroup((col: any) => col('banned').equal(1));
+
+      expect(del.build()).toBe(
+        'DELETE FROM `users` WHERE (`role` = ? OR `role` = ?) AND (`age` < ?) OR (`banned` = ?);'
+      );
+    });
+
+    it('should negate a group', () => {
+      del
+        .from('users')
+        .notGroup((col: any) =>
+          col('verified').equal(1).or().col('vip').equal(1)
+        );
+
+      expect(del.build()).toBe(
+        'DELETE FROM `users` WHERE NOT (`verified` = ? OR `vip` = ?);'
+      );
+    });
+  });
+
   describe('.and()', () => {
     it('should append AND to the condition if it exists', () => {
       // Defined condition
@@ -118,7 +212,7 @@ describe('Delete', () => {
           .where((col) => col('age').lessThan('18'))
           .close()
           .build()
-      ).toBe('DELETE FROM users WHERE (age < ?);');
+      ).toBe('DELETE FROM `users` WHERE (`age` < ?);');
     });
 
     it('should throw if the condition starts with )', () => {
@@ -129,7 +223,15 @@ describe('Delete', () => {
   describe('.build()', () => {
     it('should constructs a valid DELETE SQL statement', () => {
       del.from('users').where((col: any) => col('age').greaterThan(18));
-      expect(del.build()).toBe('DELETE FROM users WHERE age > ?;');
+      expect(del.build()).toBe('DELETE FROM `users` WHERE `age` > ?;');
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      del.connection.driver = { id: Symbol('PostgreSQL') };
+      del.from('users').where((col: any) => col('age').between(18, 30));
+      expect(del.build()).toBe(
+        'DELETE FROM "users" WHERE "age" BETWEEN $1 AND $2;'
+      );
     });
 
     it('should throws QueryError if table name is undefined', () => {
@@ -151,4 +253,29 @@ describe('Delete', () => {
       expect(del.query).toBeUndefined();
     });
   });
+
+  describe('.clone()', () => {
+    it('should copy the query without affecting the original', () => {
+      del.from('users').where((col: any) => col('id').equal(1));
+
+      const copy = del.clone();
+      copy.or().where((col: any) => col('id').equal(2));
+
+      expect(copy).toBeInstanceOf(Delete);
+      expect(del.build()).toBe('DELETE FROM `users` WHERE `id` = ?;');
+      expect(del.get.values()).toEqual([1]);
+
+      expect(copy.build()).toBe(
+        'DELETE FROM `users` WHERE `id` = ? OR `id` = ?;'
+      );
+      expect(copy.get.values()).toEqual([1, 2]);
+    });
+
+    it('should copy queries without conditions', () => {
+      const copy = del.from('users').clone();
+
+      expect(copy.table).toBe('users');
+      expect(copy.condition).toBeUndefined();
+    });
+  });
 });
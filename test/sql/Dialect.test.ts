@@ -0,0 +1,224 @@
+import { QueryError } from '@megaorm/errors';
+import { expr, Expr, format, isField, quote, serialize } from '../../src';
+
+const mock = {
+  connection: (driver: string = 'MySQL') => {
+    return {
+      id: Symbol('MegaPoolConnection'),
+      driver: { id: Symbol(driver) },
+      query: jest.fn(() => Promise.resolve()),
+    } as any;
+  },
+};
+
+describe('format', () => {
+  test('should keep ? placeholders for MySQL', () => {
+    const con = mock.connection('MySQL');
+
+    expect(format('SELECT * FROM users WHERE id = ? AND age > ?;', con)).toBe(
+      'SELECT * FROM users WHERE id = ? AND age > ?;'
+    );
+  });
+
+  test('should keep ? placeholders for SQLite', () => {
+    const con = mock.connection('SQLite');
+
+    expect(format('SELECT * FROM users WHERE id = ?;', con)).toBe(
+      'SELECT * FROM users WHERE id = ?;'
+    );
+  });
+
+  test('should number placeholders for PostgreSQL', () => {
+    const con = mock.connection('PostgreSQL');
+
+    expect(
+      format('SELECT * FROM users WHERE id IN (?, ?) AND age > ?;', con)
+    ).toBe('SELECT * FROM users WHERE id IN ($1, $2) AND age > $3;');
+  });
+
+  test('should compile escaped placeholders to a literal ? for PostgreSQL', () => {
+    const sql = 'SELECT * FROM users WHERE data \\? ? AND id = ?;';
+
+    expect(format(sql, mock.connection('PostgreSQL'))).toBe(
+      'SELECT * FROM users WHERE data ? $1 AND id = $2;'
+    );
+  });
+
+  test('should keep escaped placeholders for MySQL and SQLite', () => {
+    const sql = 'SELECT * FROM users WHERE data \\? ? AND id = ?;';
+
+    expect(format(sql, mock.connection('MySQL'))).toBe(sql);
+    expect(format(sql, mock.connection('SQLite'))).toBe(sql);
+  });
+
+  test('should skip ? inside quoted strings and identifiers', () => {
+    const con = mock.connection('PostgreSQL');
+
+    expect(
+      format(`SELECT * FROM t WHERE name = 'what?' AND id = ?;`, con)
+    ).toBe(`SELECT * FROM t WHERE name = 'what?' AND id = $1;`);
+
+    expect(
+      format(`SELECT "a?" FROM t WHERE note = 'it''s \\?' AND id = ?;`, con)
+    ).toBe(`SELECT "a?" FROM t WHERE note = 'it''s \\?' AND id = $1;`);
+
+    expect(format('SELECT `b?` FROM t WHERE id = ?;', con)).toBe(
+      'SELECT `b?` FROM t WHERE id = $1;'
+    );
+  });
+
+  test('should throw QueryError for invalid SQL', () => {
+    expect(() => format(123 as any, mock.connection())).toThrow(
+      new QueryError('Invalid SQL: 123')
+    );
+  });
+
+  test('should throw QueryError for invalid connection', () => {
+    expect(() => format('SELECT 1;', {} as any)).toThrow(QueryError);
+  });
+});
+
+describe('expr', () => {
+  test('should return an Expr instance for a valid expression', () => {
+    const result = expr('COUNT(*)');
+    expect(result).toBeInstanceOf(Expr);
+    expect(result.expression).toBe('COUNT(*)');
+  });
+
+  test('should throw QueryError for invalid expression', () => {
+    expect(() => expr('')).toThrow(new QueryError('Invalid expression: '));
+    expect(() => expr(123 as any)).toThrow(QueryError);
+  });
+});
+
+describe('quote', () => {
+  test('should quote identifiers with backticks for MySQL', () => {
+    expect(quote('order', mock.connection('MySQL'))).toBe('`order`');
+  });
+
+  test('should quote identifiers with double quotes for PostgreSQL', () => {
+    expect(quote('createdAt', mock.connection('PostgreSQL'))).toBe(
+      '"createdAt"'
+    );
+  });
+
+  test('should quote identifiers with double quotes for SQLite', () => {
+    expect(quote('user', mock.connection('SQLite'))).toBe('"user"');
+  });
+
+  test('should quote dotted paths segment by segment', () => {
+    const con = mock.connection('PostgreSQL');
+
+    expect(quote('public.users.id', con)).toBe('"public"."users"."id"');
+    expect(quote('users.*', con)).toBe('"users".*');
+    expect(quote('*', con)).toBe('*');
+  });
+
+  test('should quote aliases', () => {
+    const con = mock.connection('MySQL');
+
+    expect(quote('users.email AS mail', con)).toBe('`users`.`email` AS `mail`');
+    expect(quote('users as u', con)).toBe('`users` AS `u`');
+    expect(quote('COUNT(*) AS count', con)).toBe('COUNT(*) AS `count`');
+  });
+
+  test('should keep expressions and quoted identifiers as is', () => {
+    const con = mock.connection('MySQL');
+
+    expect(quote('COUNT(*)', con)).toBe('COUNT(*)');
+    expect(quote('SUM(price)', con)).toBe('SUM(price)');
+    expect(quote('`users`.id', con)).toBe('`users`.`id`');
+  });
+
+  test('should use Expr instances as is', () => {
+    const con = mock.connection('MySQL');
+    expect(quote(expr('CURRENT_TIMESTAMP'), con)).toBe('CURRENT_TIMESTAMP');
+  });
+
+  test('should throw QueryError for invalid identifier', () => {
+    expect(() => quote('', mock.connection())).toThrow(
+      new QueryError('Invalid identifier: ')
+    );
+  });
+
+  test('should throw QueryError for invalid connection', () => {
+    expect(() => quote('users', {} as any)).toThrow(QueryError);
+  });
+});
+
+describe('isField', () => {
+  test('should accept storable values', () => {
+    const values = [
+      null,
+      '',
+      'text',
+      0,
+      1.5,
+      true,
+      false,
+      BigInt(1),
+      new Date(),
+      Buffer.from('blob'),
+      {},
+      { a: 1 },
+      Object.create(null),
+      [],
+      [1, 'a'],
+    ];
+
+    values.forEach((value) => expect(isField(value)).toBe(true));
+  });
+
+  test('should reject other values', () => {
+    const values = [
+      undefined,
+      Symbol('x'),
+      () => 1,
+      new Date('invalid'),
+      new Map(),
+      expr('NOW()'),
+    ];
+
+    values.forEach((value) => expect(isField(value)).toBe(false));
+  });
+});
+
+describe('serialize', () => {
+  const date = new Date('2024-01-02T03:04:05.000Z');
+  const buffer = Buffer.from('blob');
+
+  test('should serialize values for MySQL', () => {
+    const con = mock.connection('MySQL');
+
+    expect(serialize(true, con)).toBe(1);
+    expect(serialize(false, con)).toBe(0);
+    expect(serialize(date, con)).toBe(date);
+    expect(serialize(buffer, con)).toBe(buffer);
+    expect(serialize({ a: 1 }, con)).toBe('{"a":1}');
+    expect(serialize([1, 2], con)).toBe('[1,2]');
+    expect(serialize(null, con)).toBeNull();
+  });
+
+  test('should serialize values for PostgreSQL', () => {
+    const con = mock.connection('PostgreSQL');
+    const object = { a: 1 };
+
+    expect(serialize(true, con)).toBe(true);
+    expect(serialize(date, con)).toBe(date);
+    expect(serialize(object, con)).toBe(object);
+    expect(serialize([1, 2], con)).toBe('[1,2]');
+    expect(serialize(BigInt(5), con)).toBe(BigInt(5));
+  });
+
+  test('should serialize values for SQLite', () => {
+    const con = mock.connection('SQLite');
+
+    expect(serialize(true, con)).toBe(1);
+    expect(serialize(date, con)).toBe('2024-01-02 03:04:05');
+    expect(serialize(new Date('2024-01-02T03:04:05.678Z'), con)).toBe(
+      '2024-01-02 03:04:05.678'
+    );
+    expect(serialize(buffer, con)).toBe(buffer);
+    expect(serialize({ a: 1 }, con)).toBe('{"a":1}');
+  });
+});
@@ -94,9 +94,26 @@ describe('Insert', () => {
     });
 
     test('should throw for invalid value types', () => {
-      const rowWithInvalidValue = { id: 1, name: ['Invalid array value'] };
+      const invalidValues = [
+        undefined,
+        () => 1,
+        Symbol('name'),
+        new Date('invalid'),
+        new Map(),
+      ];
+
+      invalidValues.forEach((value) => {
+        expect(() => insert.row({ id: 1, name: value })).toThrow(QueryError);
+      });
+    });
 
-      expect(() => insert.row(rowWithInvalidValue)).toThrow(QueryError);
+    test('should order values by the columns of the first row', () => {
+      insert.row({ id: 1, name: 'John' }).row({ name: 'Jane', id: 2 });
+
+      expect(insert.values).toEqual([
+        [1, 'John'],
+        [2, 'Jane'],
+      ]);
     });
 
     test('should set `this.columns` to row keys on first row', () => {
@@ -156,7 +173,7 @@ describe('Insert', () => {
     it('should return the correct SQL INSERT statement for single row', () => {
       insert.into('users').row({ id: 1, name: 'John Doe' });
       const query = insert.build();
-      expect(query).toBe('INSERT INTO users (id, name) VALUES (?, ?);');
+      expect(query).toBe('INSERT INTO `users` (`id`, `name`) VALUES (?, ?);');
     });
 
     it('should return the correct SQL INSERT statement for multiple rows', () => {
@@ -165,7 +182,9 @@ describe('Insert', () => {
         { id: 2, name: 'Jane Doe' },
       ]);
       const query = insert.build();
-      expect(query).toBe('INSERT INTO users (id, name) VALUES (?, ?), (?, ?);');
+      expect(query).toBe(
+        'INSERT INTO `users` (`id`, `name`) VALUES (?, ?), (?, ?);'
+      );
     });
 
     it('should include RETURNING clause when specified', () => {
@@ -175,7 +194,7 @@ describe('Insert', () => {
         .returning('id', 'name');
       const query = insert.build();
       expect(query).toBe(
-        'INSERT INTO users (id, name) VALUES (?, ?) RETURNING id, name;'
+        'INSERT INTO `users` (`id`, `name`) VALUES (?, ?) RETURNING `id`, `name`;'
       );
     });
 
@@ -189,7 +208,7 @@ describe('Insert', () => {
       expect(() => insert.build()).toThrow('Invalid INSERT values');
 
       insert.values = [['John Doe']];
-      expect(insert.build()).toBe('INSERT INTO users (name) VALUES (?);');
+      expect(insert.build()).toBe('INSERT INTO `users` (`name`) VALUES (?);');
     });
 
     it('should handle null values', () => {
@@ -204,10 +223,158 @@ describe('Insert', () => {
           })
           .build()
       ).toBe(
-        'INSERT INTO products (name, price, category, description) VALUES (?, ?, NULL, NULL);'
+        'INSERT INTO `products` (`name`, `price`, `category`, `description`) VALUES (?, ?, NULL, NULL);'
+      );
+
+      expect(insert.get.values()).toEqual(['Nice product', 123]);
+
+      // The rows are left unchanged, so the query can be built again
+      expect(insert.values).toEqual([['Nice product', 123, null, null]]);
+      expect(insert.get.values()).toEqual(['Nice product', 123]);
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      insert.connection.driver = { id: Symbol('PostgreSQL') };
+
+      expect(
+        insert
+          .into('users')
+          .rows([
+            { name: 'John', age: null },
+            { name: 'Jane', age: 25 },
+          ])
+          .returning('id')
+          .build()
+      ).toBe(
+        'INSERT INTO "users" ("name", "age") VALUES ($1, NULL), ($2, $3) RETURNING "id";'
+      );
+    });
+  });
+
+  describe('value types', () => {
+    const row = {
+      active: true,
+      deleted: false,
+      created_at: new Date('2024-01-02T03:04:05.000Z'),
+      views: BigInt('9007199254740993'),
+      avatar: Buffer.from('avatar'),
+      settings: { theme: 'dark' },
+      tags: ['a', 'b'],
+    };
+
+    it('should serialize values for MySQL', () => {
+      expect(insert.into('users').row(row).build()).toBe(
+        'INSERT INTO `users` (`active`, `deleted`, `created_at`, `views`, `avatar`, `settings`, `tags`) VALUES (?, ?, ?, ?, ?, ?, ?);'
       );
 
-      expect(insert.values).toEqual([['Nice product', 123]]);
+      expect(insert.get.values()).toEqual([
+        1,
+        0,
+        row.created_at,
+        row.views,
+        row.avatar,
+        '{"theme":"dark"}',
+        '["a","b"]',
+      ]);
+
+      // The rows are left unchanged
+      expect(insert.values).toEqual([Object.values(row)]);
+    });
+
+    it('should serialize values for PostgreSQL', () => {
+      insert.connection.driver = { id: Symbol('PostgreSQL') };
+      insert.into('users').row(row).build();
+
+      expect(insert.get.values()).toEqual([
+        true,
+        false,
+        row.created_at,
+        row.views,
+        row.avatar,
+        { theme: 'dark' },
+        '["a","b"]',
+      ]);
+    });
+
+    it('should serialize values for SQLite', () => {
+      insert.connection.driver = { id: Symbol('SQLite') };
+      insert.into('users').row(row).build();
+
+      expect(insert.get.values()).toEqual([
+        1,
+        0,
+        '2024-01-02 03:04:05',
+        row.views,
+        row.avatar,
+        '{"theme":"dark"}',
+        '["a","b"]',
+      ]);
+    });
+  });
+
+  describe('transform', () => {
+    class Money {
+      constructor(public cents: number) {}
+    }
+
+    it('should transform column values before serialization', () => {
+      insert
+        .into('orders')
+        .transform({
+          price: (money: Money) => money.cents,
+          meta: (meta: object) => ({ ...meta, version: 1 }),
+        })
+        .rows([
+          { price: new Money(1250), meta: { source: 'web' } },
+          { price: null, meta: { source: 'app' } },
+        ]);
+
+      expect(insert.build()).toBe(
+        'INSERT INTO `orders` (`price`, `meta`) VALUES (?, ?), (NULL, ?);'
+      );
+
+      expect(insert.get.values()).toEqual([
+        1250,
+        '{"source":"web","version":1}',
+        '{"source":"app","version":1}',
+      ]);
+    });
+
+    it('should merge transformers', () => {
+      insert
+        .transform({ a: (v: string) => v.toUpperCase() })
+        .transform({ b: (v: number) => v * 2 })
+        .into('t')
+        .row({ a: 'x', b: 2 })
+        .build();
+
+      expect(insert.get.values()).toEqual(['X', 4]);
+    });
+
+    it('should throw for invalid transformers', () => {
+      expect(() => insert.transform(null)).toThrow(
+        new QueryError('Invalid INSERT transformers: null')
+      );
+
+      expect(() => insert.transform({ price: 'cents' })).toThrow(
+        new QueryError('Invalid INSERT transformer: price')
+      );
+    });
+
+    it('should throw for invalid transformed values', () => {
+      insert
+        .into('orders')
+        .transform({ price: () => undefined })
+        .row({ price: new Money(1) });
+
+      expect(() => insert.build()).toThrow(
+        new QueryError('Invalid INSERT value: undefined')
+      );
+    });
+
+    it('should be cleared on reset', () => {
+      insert.transform({ price: (v: Money) => v.cents }).reset();
+      expect(insert.transformers).toEqual({});
     });
   });
 
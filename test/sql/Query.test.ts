@@ -48,23 +48,35 @@ describe('Query', () => {
       select.log.query();
 
       // Undefined query => build => log
-      expect(console.log).toHaveBeenCalledWith('SELECT * FROM users;');
+      expect(console.log).toHaveBeenCalledWith('SELECT * FROM `users`;');
     });
   });
 
   describe('log.values', () => {
-    it('should log the values', async () => {
+    it('should log the values if the query is defined', async () => {
       // Mock console.log
       console.log = jest.fn();
 
-      // Set values
+      // Set query and values
       const values = [1, 2, 3];
+      select.query = 'SELECT * FROM users WHERE id IN (?, ?, ?);';
       select.values = values;
 
       // Log values
       expect(select.log.values()).toBe(select);
       expect(console.log).toHaveBeenCalledWith(values);
     });
+
+    it('should compile the values if the query is undefined', async () => {
+      // Mock console.log
+      console.log = jest.fn();
+
+      select.from('users').where((col) => col('id').equal(5));
+
+      // Undefined query => compile => log
+      select.log.values();
+      expect(console.log).toHaveBeenCalledWith([5]);
+    });
   });
 
   describe('get.query', () => {
@@ -83,21 +95,117 @@ describe('Query', () => {
       expect(select.query).toBeUndefined();
 
       // Undefined query => build => get
-      expect(select.get.query()).toBe('SELECT * FROM users;');
+      expect(select.get.query()).toBe('SELECT * FROM `users`;');
     });
   });
 
   describe('get.values', () => {
-    it('should get the values', async () => {
+    it('should get the values if the query is defined', async () => {
       // Get values
       const values = [1, 2, 3];
 
-      // Set values
+      // Set query and values
+      select.query = 'SELECT * FROM users WHERE id IN (?, ?, ?);';
       select.values = values;
 
       // Get values
       expect(select.get.values()).toEqual(values);
     });
+
+    it('should compile the values if the query is undefined', async () => {
+      select.from('users').where((col) => col('id').equal(5));
+
+      // No need to build the query first
+      expect(select.get.values()).toEqual([5]);
+    });
+  });
+
+  describe('compile', () => {
+    it('should return an immutable result', () => {
+      select.from('users').where((col) => col('id').equal(5));
+
+      const result = select.compile();
+
+      expect(result).toEqual({
+        sql: 'SELECT * FROM `users` WHERE `id` = ?;',
+        values: [5],
+      });
+
+      expect(Object.isFrozen(result)).toBe(true);
+      expect(Object.isFrozen(result.values)).toBe(true);
+    });
+
+    it('should not mutate the query', () => {
+      select.from('users').where((col) => col('id').equal(5));
+
+      expect(select.compile()).toEqual(select.compile());
+      expect(select.compile()).not.toBe(select.compile());
+      expect(select.values).toEqual([]);
+      expect(select.query).toBeUndefined();
+    });
+
+    it('should order values by placeholder position', () => {
+      select
+        .from('users')
+        .union((s) => s.from('admins').where((col) => col('id').equal(2)))
+        .where((col) => col('id').equal(1));
+
+      expect(select.compile()).toEqual({
+        sql: '(SELECT * FROM `users` WHERE `id` = ?) UNION (SELECT * FROM `admins` WHERE `id` = ?);',
+        values: [1, 2],
+      });
+    });
+  });
+
+  describe('when & unless', () => {
+    it('should apply the callback depending on the flag', () => {
+      const filters = { city: 'Tokyo', age: undefined, all: false };
+
+      select
+        .from('users')
+        .when(filters.city, (query) =>
+          query.andWhere((col) => col('city').equal(filters.city))
+        )
+        .when(filters.age, (query) =>
+          query.andWhere((col) => col('age').equal(filters.age))
+        )
+        .unless(filters.all, (query) => query.limit(10));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `city` = ? LIMIT 10;'
+      );
+      expect(select.get.values()).toEqual(['Tokyo']);
+    });
+
+    it('should apply the fallback otherwise', () => {
+      const callback = jest.fn();
+      const fallback = jest.fn();
+
+      expect(select.when(0, callback, fallback)).toBe(select);
+      expect(select.unless('yes', callback, fallback)).toBe(select);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(fallback).toHaveBeenCalledTimes(2);
+      expect(fallback).toHaveBeenCalledWith(select);
+    });
+
+    it('should throw for invalid callbacks', () => {
+      expect(() => select.when(true, 'x')).toThrow(
+        new QueryError('Invalid WHEN callback: x')
+      );
+
+      expect(() => select.when(true, () => {}, 'x')).toThrow(
+        new QueryError('Invalid WHEN fallback: x')
+      );
+
+      expect(() => select.unless(true, null)).toThrow(
+        new QueryError('Invalid UNLESS callback: null')
+      );
+
+      expect(() => select.unless(true, () => {}, 1)).toThrow(
+        new QueryError('Invalid UNLESS fallback: 1')
+      );
+    });
   });
 
   describe('constructor', () => {
@@ -157,6 +265,27 @@ describe('Query', () => {
 
       expect(connection.query).toHaveBeenCalledWith(query, values);
     });
+
+    it('should compile the query once', async () => {
+      // Create connection
+      const connection = mock.connection();
+      connection.query = jest.fn(() => Promise.resolve([]));
+
+      // Create query
+      const select = new Select(connection);
+      const compile = jest.spyOn(select, 'compile');
+
+      await select
+        .from('users')
+        .where((col) => col('id').equal(5))
+        .exec();
+
+      expect(compile).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` WHERE `id` = ?;',
+        [5]
+      );
+    });
   });
 
   describe('raw', () => {
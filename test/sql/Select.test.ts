@@ -1,5 +1,7 @@
-import { ASC, DESC, Select } from '../../src';
-import { ref } from '../../src';
+import { QueryError } from '@megaorm/errors';
+import { ASC, DESC, NULLS_FIRST, NULLS_LAST, Select } from '../../src';
+import { condition, expr, random, rank, ref } from '../../src';
+import { rowNumber, using } from '../../src';
 
 const mock = {
   connection: () => {
@@ -34,67 +36,67 @@ describe('Select', () => {
     it('should build a basic SELECT query', () => {
       select.from('users');
 
-      expect(select.build()).toBe('SELECT * FROM users;');
+      expect(select.build()).toBe('SELECT * FROM `users`;');
     });
 
     it('should build a SELECT query with columns specified', () => {
       select.from('users').col('id', 'name');
 
-      expect(select.build()).toBe('SELECT id, name FROM users;');
+      expect(select.build()).toBe('SELECT `id`, `name` FROM `users`;');
     });
 
     it('should build a SELECT query with DISTINCT keyword', () => {
       select.from('users').distinct().col('id', 'name');
 
-      expect(select.build()).toBe('SELECT DISTINCT id, name FROM users;');
+      expect(select.build()).toBe('SELECT DISTINCT `id`, `name` FROM `users`;');
     });
 
     it('should build a SELECT query with WHERE clause', () => {
       select.from('users').where((col) => col('status').equal('active'));
 
-      expect(select.build()).toBe('SELECT * FROM users WHERE status = ?;');
-      expect(select.values).toEqual(['active']);
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `status` = ?;');
+      expect(select.get.values()).toEqual(['active']);
     });
 
     it('should build a SELECT query with GROUP BY clause', () => {
       select.from('users').groupBy('status', 'created_at');
 
       expect(select.build()).toBe(
-        'SELECT * FROM users GROUP BY status, created_at;'
+        'SELECT * FROM `users` GROUP BY `status`, `created_at`;'
       );
     });
 
     it('should build a SELECT query with HAVING clause', () => {
       select.from('users').having((col) => col('COUNT(*)').greaterThan(5));
 
-      expect(select.build()).toBe('SELECT * FROM users HAVING COUNT(*) > ?;');
-      expect(select.values).toEqual([5]);
+      expect(select.build()).toBe('SELECT * FROM `users` HAVING COUNT(*) > ?;');
+      expect(select.get.values()).toEqual([5]);
     });
 
     it('should build a SELECT query with ORDER BY clause', () => {
       select.from('users').orderBy('id', ASC);
-      expect(select.build()).toBe('SELECT * FROM users ORDER BY id ASC;');
+      expect(select.build()).toBe('SELECT * FROM `users` ORDER BY `id` ASC;');
 
       select.reset().from('users').orderBy('id', DESC);
-      expect(select.build()).toBe('SELECT * FROM users ORDER BY id DESC;');
+      expect(select.build()).toBe('SELECT * FROM `users` ORDER BY `id` DESC;');
     });
 
     it('should build a SELECT query with LIMIT clause', () => {
       select.from('users').limit(10);
 
-      expect(select.build()).toBe('SELECT * FROM users LIMIT 10;');
+      expect(select.build()).toBe('SELECT * FROM `users` LIMIT 10;');
     });
 
     it('should build a SELECT query with OFFSET clause', () => {
       select.from('users').offset(5);
 
-      expect(select.build()).toBe('SELECT * FROM users OFFSET 5;');
+      expect(select.build()).toBe('SELECT * FROM `users` OFFSET 5;');
     });
 
     it('should build a SELECT query with both LIMIT and OFFSET clauses', () => {
       select.from('users').limit(10).offset(5);
 
-      expect(select.build()).toBe('SELECT * FROM users LIMIT 10 OFFSET 5;');
+      expect(select.build()).toBe('SELECT * FROM `users` LIMIT 10 OFFSET 5;');
     });
 
     it('should build a SELECT query with JOIN clause', () => {
@@ -103,10 +105,10 @@ describe('Select', () => {
         .join('orders', (col) => col('users.id').equal(ref('orders.user_id')));
 
       expect(select.build()).toBe(
-        'SELECT * FROM users INNER JOIN orders ON users.id = orders.user_id;'
+        'SELECT * FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id`;'
       );
 
-      expect(select.values).toEqual([]);
+      expect(select.get.values()).toEqual([]);
     });
 
     it('should build a SELECT query with multiple JOIN clauses', () => {
@@ -118,10 +120,10 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users INNER JOIN orders ON users.id = orders.user_id INNER JOIN profiles ON users.id = profiles.user_id;'
+        'SELECT * FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id` INNER JOIN `profiles` ON `users`.`id` = `profiles`.`user_id`;'
       );
 
-      expect(select.values).toEqual([]);
+      expect(select.get.values()).toEqual([]);
     });
 
     it('should build a SELECT query with UNION clause', () => {
@@ -132,10 +134,10 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users UNION SELECT * FROM admins WHERE status = ?;'
+        '(SELECT * FROM `users`) UNION (SELECT * FROM `admins` WHERE `status` = ?);'
       );
 
-      expect(select.values).toEqual(['active']);
+      expect(select.get.values()).toEqual(['active']);
     });
 
     it('should build a SELECT query with UNION ALL clause', () => {
@@ -146,10 +148,10 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users UNION ALL SELECT * FROM admins WHERE status = ?;'
+        '(SELECT * FROM `users`) UNION ALL (SELECT * FROM `admins` WHERE `status` = ?);'
       );
 
-      expect(select.values).toEqual(['active']);
+      expect(select.get.values()).toEqual(['active']);
     });
 
     it('should build a SELECT query with multiple UNION clauses', () => {
@@ -163,20 +165,213 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users UNION SELECT * FROM admins WHERE status = ? UNION ALL SELECT * FROM guests WHERE status = ?;'
+        '(SELECT * FROM `users`) UNION (SELECT * FROM `admins` WHERE `status` = ?) UNION ALL (SELECT * FROM `guests` WHERE `status` = ?);'
       );
 
-      expect(select.values).toEqual(['active', 'active']);
+      expect(select.get.values()).toEqual(['active', 'active']);
     });
 
     it('should exclude semicolon for subqueries when subquery is true', () => {
       select.from('users').where((col) => col('status').equal('active'));
-      expect(select.build(true)).toBe('SELECT * FROM users WHERE status = ?');
+      expect(select.build(true)).toBe(
+        'SELECT * FROM `users` WHERE `status` = ?'
+      );
     });
 
     it('should include semicolon by default', () => {
       select.from('users').where((col) => col('status').equal('active'));
-      expect(select.build('hi')).toBe('SELECT * FROM users WHERE status = ?;');
+      expect(select.build('hi')).toBe(
+        'SELECT * FROM `users` WHERE `status` = ?;'
+      );
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from('users')
+        .where((col) =>
+          col('id')
+            .inSubquery((select) =>
+              select
+                .col('user_id')
+                .from('orders')
+                .where((col) => col('total').greaterThan(100))
+            )
+            .and()
+            .col('status')
+            .equal('active')
+        )
+        .union((select) =>
+          select.from('admins').where((col) => col('role').in('owner', 'staff'))
+        );
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM "users" WHERE "id" IN (SELECT "user_id" FROM "orders" WHERE "total" > $1) AND "status" = $2) UNION (SELECT * FROM "admins" WHERE "role" IN ($3, $4));'
+      );
+    });
+
+    it('should quote identifiers for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .col('u.firstName AS name', expr('COUNT(*) AS total'))
+        .from('public.user AS u')
+        .join('order', (col) => col('order.userId').equal(ref('u.id')))
+        .groupBy('u.firstName')
+        .orderBy('total', DESC);
+
+      expect(select.build()).toBe(
+        'SELECT "u"."firstName" AS "name", COUNT(*) AS total FROM "public"."user" AS "u" INNER JOIN "order" ON "order"."userId" = "u"."id" GROUP BY "u"."firstName" ORDER BY "total" DESC;'
+      );
+    });
+
+    it('should keep ? placeholders in PostgreSQL subqueries', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select.from('users').where((col) => col('status').equal('active'));
+
+      expect(select.build(true)).toBe(
+        'SELECT * FROM "users" WHERE "status" = ?'
+      );
+    });
+
+    it('should not number escaped placeholders in raw conditions', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from('users')
+        .where((col, con) =>
+          con.raw('data \\? ?', 'admin').and().col('id').equal(1)
+        );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM "users" WHERE data ? $1 AND "id" = $2;'
+      );
+    });
+  });
+
+  describe('with', () => {
+    it('should prefix the query with a WITH clause', () => {
+      select
+        .with('active_users', (select) =>
+          select.from('users').where((col) => col('status').equal('active'))
+        )
+        .from('active_users')
+        .where((col) => col('age').greaterThan(18));
+
+      expect(select.build()).toBe(
+        'WITH `active_users` AS (SELECT * FROM `users` WHERE `status` = ?) SELECT * FROM `active_users` WHERE `age` > ?;'
+      );
+      expect(select.get.values()).toEqual(['active', 18]);
+    });
+
+    it('should support multiple CTEs used in joins', () => {
+      select
+        .with('buyers', (select) =>
+          select.col('user_id').from('orders').groupBy('user_id')
+        )
+        .with('admins', (select) =>
+          select.from('users').where((col) => col('role').equal('admin'))
+        )
+        .from('admins')
+        .join('buyers', (col) => col('buyers.user_id').equal(ref('admins.id')));
+
+      expect(select.build()).toBe(
+        'WITH `buyers` AS (SELECT `user_id` FROM `orders` GROUP BY `user_id`), `admins` AS (SELECT * FROM `users` WHERE `role` = ?) SELECT * FROM `admins` INNER JOIN `buyers` ON `buyers`.`user_id` = `admins`.`id`;'
+      );
+      expect(select.get.values()).toEqual(['admin']);
+    });
+
+    it('should throw for invalid arguments', () => {
+      expect(() => select.with('', () => {})).toThrow('Invalid WITH name: ');
+
+      expect(() => select.with('cte', 'invalid')).toThrow(
+        'Invalid WITH subquery: invalid'
+      );
+
+      select.with('cte', (select) => select.from('users'));
+      expect(() =>
+        select.with('cte', (select) => select.from('users'))
+      ).toThrow('Duplicate WITH name: cte');
+    });
+
+    it('should be cleared on reset', () => {
+      select.with('cte', (select) => select.from('users')).reset();
+      expect(select.from('cte').build()).toBe('SELECT * FROM `cte`;');
+    });
+  });
+
+  describe('withRecursive', () => {
+    it('should prefix the query with a WITH RECURSIVE clause', () => {
+      select
+        .withRecursive(
+          'tree',
+          ['id', 'parent_id', 'depth'],
+          (select) =>
+            select
+              .col('id', 'parent_id', expr('0'))
+              .from('categories')
+              .where((col) => col('id').equal(1)),
+          (select) =>
+            select
+              .col('c.id', 'c.parent_id', expr('t.depth + 1'))
+              .from('categories AS c')
+              .join('tree AS t', (col) => col('c.parent_id').equal(ref('t.id')))
+              .where((col) => col('t.depth').lessThan(5))
+        )
+        .from('tree')
+        .where((col) => col('depth').greaterThan(0));
+
+      expect(select.build()).toBe(
+        'WITH RECURSIVE `tree` (`id`, `parent_id`, `depth`) AS (SELECT `id`, `parent_id`, 0 FROM `categories` WHERE `id` = ? UNION ALL SELECT `c`.`id`, `c`.`parent_id`, t.depth + 1 FROM `categories` AS `c` INNER JOIN `tree` AS `t` ON `c`.`parent_id` = `t`.`id` WHERE `t`.`depth` < ?) SELECT * FROM `tree` WHERE `depth` > ?;'
+      );
+      expect(select.get.values()).toEqual([1, 5, 0]);
+    });
+
+    it('should number placeholders in order for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .with('recent', (select) =>
+          select.from('posts').where((col) => col('year').equal(2024))
+        )
+        .withRecursive(
+          'nums',
+          ['n'],
+          (select) => select.col(expr('1')).from('one'),
+          (select) =>
+            select
+              .col(expr('n + 1'))
+              .from('nums')
+              .where((col) => col('n').lessThan(10))
+        )
+        .from('recent')
+        .where((col) => col('id').equal(3));
+
+      expect(select.build()).toBe(
+        'WITH RECURSIVE "recent" AS (SELECT * FROM "posts" WHERE "year" = $1), "nums" ("n") AS (SELECT 1 FROM "one" UNION ALL SELECT n + 1 FROM "nums" WHERE "n" < $2) SELECT * FROM "recent" WHERE "id" = $3;'
+      );
+      expect(select.get.values()).toEqual([2024, 10, 3]);
+    });
+
+    it('should throw for invalid arguments', () => {
+      const query = (select) => select.from('users');
+
+      expect(() => select.withRecursive('', ['id'], query, query)).toThrow(
+        'Invalid WITH RECURSIVE name: '
+      );
+
+      expect(() => select.withRecursive('cte', [], query, query)).toThrow(
+        'Invalid WITH RECURSIVE columns: '
+      );
+
+      expect(() => select.withRecursive('cte', ['id'], 1, query)).toThrow(
+        'Invalid WITH RECURSIVE anchor: 1'
+      );
+
+      expect(() => select.withRecursive('cte', ['id'], query, 1)).toThrow(
+        'Invalid WITH RECURSIVE subquery: 1'
+      );
     });
   });
 
@@ -194,7 +389,7 @@ describe('Select', () => {
 
     it('should default to selecting all columns if no columns are provided', () => {
       select.from('users');
-      expect(select.build()).toBe('SELECT * FROM users;');
+      expect(select.build()).toBe('SELECT * FROM `users`;');
     });
   });
 
@@ -209,6 +404,53 @@ describe('Select', () => {
 
       expect(() => select.from('users')).not.toThrow();
     });
+
+    it('should select from a derived table', () => {
+      select
+        .col(expr('AVG(t.total) AS average'))
+        .from(
+          (select) =>
+            select
+              .col('user_id', expr('SUM(amount) AS total'))
+              .from('orders')
+              .where((col) => col('status').equal('paid'))
+              .groupBy('user_id'),
+          't'
+        )
+        .where((col) => col('t.total').greaterThan(100));
+
+      expect(select.build()).toBe(
+        'SELECT AVG(t.total) AS average FROM (SELECT `user_id`, SUM(amount) AS total FROM `orders` WHERE `status` = ? GROUP BY `user_id`) AS `t` WHERE `t`.`total` > ?;'
+      );
+      expect(select.get.values()).toEqual(['paid', 100]);
+    });
+
+    it('should number derived table placeholders first for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from(
+          (select) =>
+            select.from('users').where((col) => col('age').greaterThan(18)),
+          'adults'
+        )
+        .where((col) => col('adults.city').equal('Tokyo'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM (SELECT * FROM "users" WHERE "age" > $1) AS "adults" WHERE "adults"."city" = $2;'
+      );
+      expect(select.get.values()).toEqual([18, 'Tokyo']);
+    });
+
+    it('should throw for invalid derived tables', () => {
+      expect(() => select.from((select) => select.from('users'), '')).toThrow(
+        'Invalid FROM alias: '
+      );
+
+      expect(() => select.from((select) => select.from('users'))).toThrow(
+        'Invalid FROM alias: undefined'
+      );
+    });
   });
 
   describe('join', () => {
@@ -218,10 +460,10 @@ describe('Select', () => {
         .join('orders', (col) => col('users.id').equal(ref('orders.user_id')));
 
       expect(select.build()).toBe(
-        'SELECT * FROM users INNER JOIN orders ON users.id = orders.user_id;'
+        'SELECT * FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id`;'
       );
 
-      expect(select.values).toEqual([]);
+      expect(select.get.values()).toEqual([]);
     });
 
     it('should throw for invalid table name', () => {
@@ -237,6 +479,55 @@ describe('Select', () => {
     });
   });
 
+  describe('join derived tables', () => {
+    it('should join a derived table', () => {
+      select
+        .from('users')
+        .where((col) => col('users.active').equal(1))
+        .leftJoin(
+          (select) =>
+            select
+              .col('user_id', expr('COUNT(*) AS orders'))
+              .from('orders')
+              .where((col) => col('year').equal(2024))
+              .groupBy('user_id'),
+          'o',
+          (col) => col('o.user_id').equal(ref('users.id'))
+        );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` LEFT JOIN (SELECT `user_id`, COUNT(*) AS orders FROM `orders` WHERE `year` = ? GROUP BY `user_id`) AS `o` ON `o`.`user_id` = `users`.`id` WHERE `users`.`active` = ?;'
+      );
+      expect(select.get.values()).toEqual([2024, 1]);
+    });
+
+    it('should support INNER and RIGHT joins', () => {
+      const subquery = (select) => select.from('admins');
+      const condition = (col) => col('a.id').equal(ref('users.id'));
+
+      select
+        .from('users')
+        .join(subquery, 'a', condition)
+        .rightJoin(subquery, 'b', condition);
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` INNER JOIN (SELECT * FROM `admins`) AS `a` ON `a`.`id` = `users`.`id` RIGHT JOIN (SELECT * FROM `admins`) AS `b` ON `a`.`id` = `users`.`id`;'
+      );
+    });
+
+    it('should throw for invalid derived tables', () => {
+      const condition = (col) => col('a.id').equal(ref('users.id'));
+
+      expect(() =>
+        select.join((select) => select.from('admins'), '', condition)
+      ).toThrow('Invalid JOIN alias: ');
+
+      expect(() =>
+        select.join((select) => select.from('admins'), 'a', 'invalid')
+      ).toThrow('Invalid JOIN condition: invalid');
+    });
+  });
+
   describe('leftJoin', () => {
     it('should add a LEFT JOIN clause with valid table and condition', () => {
       select
@@ -246,10 +537,10 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users LEFT JOIN orders ON users.id = orders.user_id;'
+        'SELECT * FROM `users` LEFT JOIN `orders` ON `users`.`id` = `orders`.`user_id`;'
       );
 
-      expect(select.values).toEqual([]);
+      expect(select.get.values()).toEqual([]);
     });
 
     it('should throw for invalid table name', () => {
@@ -274,10 +565,10 @@ describe('Select', () => {
         );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users RIGHT JOIN orders ON users.id = orders.user_id;'
+        'SELECT * FROM `users` RIGHT JOIN `orders` ON `users`.`id` = `orders`.`user_id`;'
       );
 
-      expect(select.values).toEqual([]);
+      expect(select.get.values()).toEqual([]);
     });
 
     it('should throw for invalid table name', () => {
@@ -293,157 +584,600 @@ describe('Select', () => {
     });
   });
 
-  describe('groupBy', () => {
-    it('should add a GROUP BY clause with valid columns', () => {
-      select.from('users').groupBy('users.status');
-      expect(select.build()).toBe('SELECT * FROM users GROUP BY users.status;');
-    });
+  describe('clone', () => {
+    it('should copy the query without affecting the original', () => {
+      select
+        .col('id', 'name')
+        .from('users')
+        .join('orders', (col) => col('users.id').equal(ref('orders.user_id')))
+        .where((col) => col('age').greaterThan(18))
+        .orderBy('id');
 
-    it('should add a GROUP BY clause with multiple valid columns', () => {
-      select.from('products').groupBy('category', 'price');
+      const copy = select.clone();
+
+      copy
+        .col('email')
+        .leftJoin('profiles', using('user_id'))
+        .and()
+        .where((col) => col('active').equal(1))
+        .orderBy('name', DESC)
+        .limit(5)
+        .forUpdate();
+
+      expect(copy).toBeInstanceOf(Select);
       expect(select.build()).toBe(
-        'SELECT * FROM products GROUP BY category, price;'
+        'SELECT `id`, `name` FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id` WHERE `age` > ? ORDER BY `id` ASC;'
       );
-    });
+      expect(select.get.values()).toEqual([18]);
 
-    it('should throw if the column is invalid', () => {
-      expect(() => select.groupBy(123)).toThrow('Invalid GROUP BY column: 123');
+      expect(copy.build()).toBe(
+        'SELECT `email` FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id` LEFT JOIN `profiles` USING (`user_id`) WHERE `age` > ? AND `active` = ? ORDER BY `id` ASC, `name` DESC LIMIT 5 FOR UPDATE;'
+      );
+      expect(copy.get.values()).toEqual([18, 1]);
     });
-  });
 
-  describe('orderBy', () => {
-    it('should add an ORDER BY clause with valid column and ascending order', () => {
-      select.from('users').orderBy('users.age', ASC);
+    it('should copy subqueries', () => {
+      select
+        .with('adults', (s) =>
+          s.from('users').where((col) => col('age').greaterThan(18))
+        )
+        .from((s) => s.from('adults'), 'a')
+        .union((s) => s.from('admins'));
+
+      const copy = select.clone();
+
+      copy.state.ctes[0].query.and().where((col) => col('age').lessThan(65));
+      copy.state.table.query.limit(1);
+      copy.state.sets[0].query.limit(2);
+
       expect(select.build()).toBe(
-        'SELECT * FROM users ORDER BY users.age ASC;'
+        'WITH `adults` AS (SELECT * FROM `users` WHERE `age` > ?) (SELECT * FROM (SELECT * FROM `adults`) AS `a`) UNION (SELECT * FROM `admins`);'
       );
-    });
 
-    it('should add an ORDER BY clause with valid column and descending order', () => {
-      select.from('products').orderBy('price', DESC);
-      expect(select.build()).toBe(
-        'SELECT * FROM products ORDER BY price DESC;'
+      expect(copy.build()).toBe(
+        'WITH `adults` AS (SELECT * FROM `users` WHERE `age` > ? AND `age` < ?) (SELECT * FROM (SELECT * FROM `adults` LIMIT 1) AS `a`) UNION (SELECT * FROM `admins` LIMIT 2);'
       );
     });
 
-    it('should throw if the column is invalid', () => {
-      expect(() => select.orderBy(123)).toThrow('Invalid ORDER BY column: 123');
-    });
+    it('should copy named windows', () => {
+      select
+        .col('id', rowNumber().over('w'))
+        .from('orders')
+        .window('w', (w) => w.partitionBy('user_id'));
 
-    it('should throw if the order type is invalid', () => {
-      expect(() => select.orderBy('age', 'invalid')).toThrow(
-        'Invalid ORDER BY type: invalid'
+      const copy = select.clone();
+      copy.state.windows[0].window.orderBy('id');
+
+      expect(select.build()).toBe(
+        'SELECT `id`, ROW_NUMBER() OVER `w` FROM `orders` WINDOW `w` AS (PARTITION BY `user_id`);'
+      );
+      expect(copy.build()).toBe(
+        'SELECT `id`, ROW_NUMBER() OVER `w` FROM `orders` WINDOW `w` AS (PARTITION BY `user_id` ORDER BY `id` ASC);'
       );
     });
-  });
 
-  describe('distinct', () => {
-    it('should add DISTINCT to the query for selected columns', () => {
-      select.distinct().col('name').from('users');
-      expect(select.build()).toBe('SELECT DISTINCT name FROM users;');
-    });
+    it('should keep opened groups consistent', () => {
+      select
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .and()
+        .open()
+        .where((col) => col('role').equal('admin'));
 
-    it('should add DISTINCT to the query with all columns', () => {
-      select.distinct().from('products');
-      expect(select.build()).toBe('SELECT DISTINCT * FROM products;');
-    });
+      const copy = select.clone();
+
+      copy
+        .or()
+        .where((col) => col('role').equal('owner'))
+        .close();
+      select.close();
 
-    it('should add DISTINCT correctly with other query clauses', () => {
-      select.distinct().col('name').from('users').groupBy('status');
       expect(select.build()).toBe(
-        'SELECT DISTINCT name FROM users GROUP BY status;'
+        'SELECT * FROM `users` WHERE `age` > ? AND (`role` = ?);'
       );
-    });
-  });
 
-  describe('offset', () => {
-    it('should correctly add an OFFSET clause with a valid number', () => {
-      select.from('users').offset(10);
-      expect(select.build()).toBe('SELECT * FROM users OFFSET 10;');
+      expect(copy.build()).toBe(
+        'SELECT * FROM `users` WHERE `age` > ? AND (`role` = ? OR `role` = ?);'
+      );
     });
 
-    it('should allow an OFFSET value of 0', () => {
-      select.from('users').offset(0);
-      expect(select.build()).toBe('SELECT * FROM users OFFSET 0;');
-    });
+    it('should copy the values and the query', () => {
+      select.from('users').where((col) => col('id').equal(1));
+      select.build();
 
-    it('should throw for negative OFFSET values', () => {
-      expect(() => {
-        select.from('users').offset(-5).build();
-      }).toThrow('Invalid OFFSET value: -5');
-    });
+      const copy = select.clone();
 
-    it('should throw for non-integer OFFSET values', () => {
-      expect(() => {
-        select.from('users').offset('invalid').build();
-      }).toThrow('Invalid OFFSET value: invalid');
+      expect(copy.get.values()).toEqual([1]);
+      expect(copy.get.values()).not.toBe(select.values);
     });
   });
 
-  describe('limit', () => {
-    it('should correctly add a LIMIT clause with a valid number', () => {
-      select.from('users').limit(10);
-      expect(select.build()).toBe('SELECT * FROM users LIMIT 10;');
-    });
+  describe('fullJoin', () => {
+    it('should add a FULL OUTER JOIN clause', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select
+        .from('users')
+        .fullJoin('orders', (col) =>
+          col('users.id').equal(ref('orders.user_id'))
+        );
 
-    it('should allow a LIMIT value of 0', () => {
-      select.from('users').limit(0);
-      expect(select.build()).toBe('SELECT * FROM users LIMIT 0;');
+      expect(select.build()).toBe(
+        'SELECT * FROM "users" FULL OUTER JOIN "orders" ON "users"."id" = "orders"."user_id";'
+      );
     });
 
-    it('should throw for negative LIMIT values', () => {
-      expect(() => {
-        select.from('users').limit(-5).build();
-      }).toThrow('Invalid LIMIT value: -5');
+    it('should reject FULL OUTER JOIN for MySQL and SQLite', () => {
+      select.from('users').fullJoin('orders', using('user_id'));
+
+      expect(() => select.build()).toThrow(
+        'FULL OUTER JOIN is not supported by MySQL, use a UNION of leftJoin() and rightJoin()'
+      );
+
+      select.connection.driver = { id: Symbol('SQLite') };
+      expect(() => select.build()).toThrow(
+        'FULL OUTER JOIN is not supported by SQLite, use leftJoin() with the tables swapped'
+      );
     });
 
-    it('should throw for non-integer LIMIT values', () => {
-      expect(() => {
-        select.from('users').limit('invalid').build();
-      }).toThrow('Invalid LIMIT value: invalid');
+    it('should reject RIGHT JOIN for SQLite', () => {
+      select.connection.driver = { id: Symbol('SQLite') };
+      select.from('users').rightJoin('orders', using('user_id'));
+
+      expect(() => select.build()).toThrow(
+        'RIGHT JOIN is not supported by SQLite, use leftJoin() with the tables swapped'
+      );
     });
   });
 
-  describe('where', () => {
-    it('should correctly add a WHERE clause with a valid condition', () => {
-      select.from('users').where((col) => col('age').greaterThan(18));
-      expect(select.build()).toBe('SELECT * FROM users WHERE age > ?;');
-      expect(select.values).toEqual([18]);
+  describe('crossJoin & naturalJoin', () => {
+    it('should add joins without conditions', () => {
+      select.from('sizes').crossJoin('colors').naturalJoin('stock');
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `sizes` CROSS JOIN `colors` NATURAL JOIN `stock`;'
+      );
     });
 
-    it('should correctly chain multiple WHERE conditions with AND/OR', () => {
-      select
-        .from('users')
-        .where((col) => col('status').equal('active'))
-        .and()
-        .where((col) => col('age').greaterThan(18));
+    it('should support derived tables', () => {
+      select.from('users').crossJoin(
+        (select) =>
+          select
+            .col(expr('MAX(age) AS oldest'))
+            .from('users')
+            .where((col) => col('active').equal(1)),
+        'stats'
+      );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users WHERE status = ? AND age > ?;'
+        'SELECT * FROM `users` CROSS JOIN (SELECT MAX(age) AS oldest FROM `users` WHERE `active` = ?) AS `stats`;'
       );
+      expect(select.get.values()).toEqual([1]);
+    });
 
-      expect(select.values).toEqual(['active', 18]);
+    it('should throw for invalid tables', () => {
+      expect(() => select.crossJoin('')).toThrow('Invalid JOIN table: ');
+      expect(() => select.naturalJoin((select) => select, '')).toThrow(
+        'Invalid JOIN alias: '
+      );
     });
+  });
 
-    it('should allow the use of parentheses to group conditions', () => {
+  describe('lateralJoin & leftLateralJoin', () => {
+    it('should join a subquery referencing the outer query', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
       select
+        .col('users.name', 'recent.total')
         .from('users')
-        .paren()
-        .where((col) => col('status').equal('inactive'))
-        .or()
-        .where((col) => col('status').equal('banned'))
-        .paren()
-        .and()
-        .where((col) => col('city').equal('Tokyo'));
+        .lateralJoin(
+          (select) =>
+            select
+              .col('total')
+              .from('orders')
+              .where((col) =>
+                col('orders.user_id')
+                  .equal(ref('users.id'))
+                  .and()
+                  .col('status')
+                  .equal('paid')
+              )
+              .orderBy('created_at', DESC)
+              .limit(3),
+          'recent'
+        )
+        .where((col) => col('users.active').equal(1));
 
       expect(select.build()).toBe(
-        'SELECT * FROM users WHERE (status = ? OR status = ?) AND city = ?;'
+        'SELECT "users"."name", "recent"."total" FROM "users" INNER JOIN LATERAL (SELECT "total" FROM "orders" WHERE "orders"."user_id" = "users"."id" AND "status" = $1 ORDER BY "created_at" DESC LIMIT 3) AS "recent" ON TRUE WHERE "users"."active" = $2;'
       );
-
-      expect(select.values).toEqual(['inactive', 'banned', 'Tokyo']);
+      expect(select.get.values()).toEqual(['paid', 1]);
     });
 
-    it('should throw if the condition is not a function', () => {
+    it('should accept a join condition', () => {
+      select.version('8.0.14');
+      select.from('users').leftLateralJoin(
+        (select) =>
+          select
+            .col('user_id', 'total')
+            .from('orders')
+            .where((col) => col('orders.user_id').equal(ref('users.id')))
+            .limit(1),
+        'last',
+        (col) => col('last.total').greaterThan(100)
+      );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` LEFT JOIN LATERAL (SELECT `user_id`, `total` FROM `orders` WHERE `orders`.`user_id` = `users`.`id` LIMIT 1) AS `last` ON `last`.`total` > ?;'
+      );
+      expect(select.get.values()).toEqual([100]);
+    });
+
+    it('should reject LATERAL JOIN for SQLite', () => {
+      select.connection.driver = { id: Symbol('SQLite') };
+      select.from('users').lateralJoin((select) => select.from('orders'), 'o');
+
+      expect(() => select.build()).toThrow(
+        'LATERAL JOIN is not supported by SQLite, use a correlated subquery instead'
+      );
+    });
+
+    it('should require MySQL 8.0.14 or later', () => {
+      select.from('users').lateralJoin((select) => select.from('orders'), 'o');
+
+      expect(() => select.build()).toThrow(
+        new QueryError(
+          'LATERAL JOIN requires MySQL 8.0.14 or later, declare the server version with version()'
+        )
+      );
+
+      expect(() => select.version('8.0.13').build()).toThrow(
+        'LATERAL JOIN requires MySQL 8.0.14 or later'
+      );
+
+      expect(() => select.version('10.6.12-MariaDB').build()).toThrow(
+        'LATERAL JOIN is not supported by MariaDB, use a correlated subquery instead'
+      );
+
+      expect(select.version('8.0.14').build()).toBe(
+        'SELECT * FROM `users` INNER JOIN LATERAL (SELECT * FROM `orders`) AS `o` ON TRUE;'
+      );
+    });
+
+    it('should throw for invalid arguments', () => {
+      expect(() => select.lateralJoin('orders' as any, 'o')).toThrow(
+        'Invalid LATERAL JOIN subquery: orders'
+      );
+
+      expect(() => select.lateralJoin((select) => select, '')).toThrow(
+        'Invalid LATERAL JOIN alias: '
+      );
+
+      expect(() =>
+        select.leftLateralJoin((select) => select, 'o', 'x' as any)
+      ).toThrow('Invalid LATERAL JOIN condition: x');
+    });
+  });
+
+  describe('using', () => {
+    it('should join on shared columns', () => {
+      select
+        .from('users')
+        .join('profiles', using('user_id'))
+        .leftJoin('orders', using('user_id', 'tenant_id'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` INNER JOIN `profiles` USING (`user_id`) LEFT JOIN `orders` USING (`user_id`, `tenant_id`);'
+      );
+    });
+
+    it('should throw for invalid columns', () => {
+      expect(() => using()).toThrow('Invalid USING columns: ');
+      expect(() => using('id', '')).toThrow('Invalid USING columns: id,');
+    });
+  });
+
+  describe('groupBy', () => {
+    it('should add a GROUP BY clause with valid columns', () => {
+      select.from('users').groupBy('users.status');
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` GROUP BY `users`.`status`;'
+      );
+    });
+
+    it('should add a GROUP BY clause with multiple valid columns', () => {
+      select.from('products').groupBy('category', 'price');
+      expect(select.build()).toBe(
+        'SELECT * FROM `products` GROUP BY `category`, `price`;'
+      );
+    });
+
+    it('should throw if the column is invalid', () => {
+      expect(() => select.groupBy(123)).toThrow('Invalid GROUP BY column: 123');
+    });
+  });
+
+  describe('orderBy', () => {
+    it('should add an ORDER BY clause with valid column and ascending order', () => {
+      select.from('users').orderBy('users.age', ASC);
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` ORDER BY `users`.`age` ASC;'
+      );
+    });
+
+    it('should add an ORDER BY clause with valid column and descending order', () => {
+      select.from('products').orderBy('price', DESC);
+      expect(select.build()).toBe(
+        'SELECT * FROM `products` ORDER BY `price` DESC;'
+      );
+    });
+
+    it('should throw if the column is invalid', () => {
+      expect(() => select.orderBy(0)).toThrow('Invalid ORDER BY column: 0');
+      expect(() => select.orderBy(1.5)).toThrow('Invalid ORDER BY column: 1.5');
+      expect(() => select.orderBy(Symbol('x'))).toThrow(
+        'Invalid ORDER BY column: Symbol(x)'
+      );
+    });
+
+    it('should throw if the order type is invalid', () => {
+      expect(() => select.orderBy('age', 'invalid')).toThrow(
+        'Invalid ORDER BY type: invalid'
+      );
+    });
+
+    it('should throw if the nulls position is invalid', () => {
+      expect(() => select.orderBy('age', ASC, 'LAST')).toThrow(
+        'Invalid ORDER BY nulls: LAST'
+      );
+    });
+
+    it('should order by column positions and select aliases', () => {
+      select
+        .col('name', 'COUNT(*) AS total')
+        .from('users')
+        .groupBy('name')
+        .orderBy(2, DESC)
+        .orderBy('total');
+
+      expect(select.build()).toBe(
+        'SELECT `name`, COUNT(*) AS `total` FROM `users` GROUP BY `name` ORDER BY 2 DESC, `total` ASC;'
+      );
+    });
+
+    it('should add NULLS FIRST and NULLS LAST', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from('products')
+        .orderBy('price', ASC, NULLS_LAST)
+        .orderBy('name', DESC, NULLS_FIRST)
+        .orderBy(1, ASC, NULLS_LAST);
+
+      expect(select.build()).toBe(
+        'SELECT * FROM "products" ORDER BY "price" ASC NULLS LAST, "name" DESC NULLS FIRST, 1 ASC NULLS LAST;'
+      );
+    });
+
+    it('should emulate NULLS FIRST and NULLS LAST in MySQL', () => {
+      select
+        .from('products')
+        .orderBy('price', ASC, NULLS_LAST)
+        .orderBy('name', DESC, NULLS_FIRST);
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `products` ORDER BY `price` IS NULL, `price` ASC, `name` IS NULL DESC, `name` DESC;'
+      );
+
+      select.reset().from('products').orderBy(1, ASC, NULLS_LAST);
+      expect(() => select.build()).toThrow(
+        'NULLS LAST cannot be used with a column position in MySQL'
+      );
+    });
+
+    it('should order randomly', () => {
+      select.from('products').orderBy(random());
+      expect(select.build()).toBe('SELECT * FROM `products` ORDER BY RAND();');
+
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      expect(select.build()).toBe(
+        'SELECT * FROM "products" ORDER BY RANDOM();'
+      );
+
+      select.connection.driver = { id: Symbol('SQLite') };
+      expect(select.build()).toBe(
+        'SELECT * FROM "products" ORDER BY RANDOM();'
+      );
+    });
+  });
+
+  describe('orderByRaw', () => {
+    it('should add a raw expression with values', () => {
+      select
+        .from('orders')
+        .where((col) => col('total').greaterThan(100))
+        .orderByRaw('CASE WHEN status = ? THEN 0 ELSE 1 END', 'urgent')
+        .orderBy('id', DESC)
+        .limit(10);
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `orders` WHERE `total` > ? ORDER BY CASE WHEN status = ? THEN 0 ELSE 1 END, `id` DESC LIMIT 10;'
+      );
+
+      expect(select.get.values()).toEqual([100, 'urgent']);
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from('orders')
+        .where((col) => col('total').greaterThan(100))
+        .orderByRaw('ABS(total - ?) ASC', 250);
+
+      expect(select.build()).toBe(
+        'SELECT * FROM "orders" WHERE "total" > $1 ORDER BY ABS(total - $2) ASC;'
+      );
+    });
+
+    it('should throw for invalid expressions and values', () => {
+      expect(() => select.orderByRaw('')).toThrow(
+        'Invalid ORDER BY expression: '
+      );
+
+      expect(() => select.orderByRaw('status = ?', null)).toThrow(
+        'Invalid ORDER BY value: null'
+      );
+    });
+  });
+
+  describe('window', () => {
+    it('should use window functions in columns and ORDER BY', () => {
+      const position = rowNumber().over((w) =>
+        w.partitionBy('user_id').orderBy('created_at', DESC)
+      );
+
+      select.col('id', position.as('rn')).from('orders').orderBy(position, ASC);
+
+      expect(select.build()).toBe(
+        'SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `user_id` ORDER BY `created_at` DESC) AS `rn` FROM `orders` ORDER BY ROW_NUMBER() OVER (PARTITION BY `user_id` ORDER BY `created_at` DESC) ASC;'
+      );
+    });
+
+    it('should add named WINDOW definitions', () => {
+      select
+        .col('name', rank().over('leaderboard').as('position'))
+        .from('players')
+        .where((col) => col('active').equal(1))
+        .window('leaderboard', (w) => w.orderBy('score', DESC))
+        .orderBy('score', DESC);
+
+      expect(select.build()).toBe(
+        'SELECT `name`, RANK() OVER `leaderboard` AS `position` FROM `players` WHERE `active` = ? WINDOW `leaderboard` AS (ORDER BY `score` DESC) ORDER BY `score` DESC;'
+      );
+    });
+
+    it('should throw for invalid windows', () => {
+      expect(() => select.window('', () => {})).toThrow(
+        'Invalid WINDOW name: '
+      );
+
+      expect(() => select.window('w', 'invalid')).toThrow(
+        'Invalid WINDOW definition: invalid'
+      );
+
+      select.window('w', (w) => w.orderBy('id'));
+      expect(() => select.window('w', (w) => w.orderBy('id'))).toThrow(
+        'Duplicate WINDOW name: w'
+      );
+    });
+  });
+
+  describe('distinct', () => {
+    it('should add DISTINCT to the query for selected columns', () => {
+      select.distinct().col('name').from('users');
+      expect(select.build()).toBe('SELECT DISTINCT `name` FROM `users`;');
+    });
+
+    it('should add DISTINCT to the query with all columns', () => {
+      select.distinct().from('products');
+      expect(select.build()).toBe('SELECT DISTINCT * FROM `products`;');
+    });
+
+    it('should add DISTINCT correctly with other query clauses', () => {
+      select.distinct().col('name').from('users').groupBy('status');
+      expect(select.build()).toBe(
+        'SELECT DISTINCT `name` FROM `users` GROUP BY `status`;'
+      );
+    });
+  });
+
+  describe('offset', () => {
+    it('should correctly add an OFFSET clause with a valid number', () => {
+      select.from('users').offset(10);
+      expect(select.build()).toBe('SELECT * FROM `users` OFFSET 10;');
+    });
+
+    it('should allow an OFFSET value of 0', () => {
+      select.from('users').offset(0);
+      expect(select.build()).toBe('SELECT * FROM `users` OFFSET 0;');
+    });
+
+    it('should throw for negative OFFSET values', () => {
+      expect(() => {
+        select.from('users').offset(-5).build();
+      }).toThrow('Invalid OFFSET value: -5');
+    });
+
+    it('should throw for non-integer OFFSET values', () => {
+      expect(() => {
+        select.from('users').offset('invalid').build();
+      }).toThrow('Invalid OFFSET value: invalid');
+    });
+  });
+
+  describe('limit', () => {
+    it('should correctly add a LIMIT clause with a valid number', () => {
+      select.from('users').limit(10);
+      expect(select.build()).toBe('SELECT * FROM `users` LIMIT 10;');
+    });
+
+    it('should allow a LIMIT value of 0', () => {
+      select.from('users').limit(0);
+      expect(select.build()).toBe('SELECT * FROM `users` LIMIT 0;');
+    });
+
+    it('should throw for negative LIMIT values', () => {
+      expect(() => {
+        select.from('users').limit(-5).build();
+      }).toThrow('Invalid LIMIT value: -5');
+    });
+
+    it('should throw for non-integer LIMIT values', () => {
+      expect(() => {
+        select.from('users').limit('invalid').build();
+      }).toThrow('Invalid LIMIT value: invalid');
+    });
+  });
+
+  describe('where', () => {
+    it('should correctly add a WHERE clause with a valid condition', () => {
+      select.from('users').where((col) => col('age').greaterThan(18));
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `age` > ?;');
+      expect(select.get.values()).toEqual([18]);
+    });
+
+    it('should correctly chain multiple WHERE conditions with AND/OR', () => {
+      select
+        .from('users')
+        .where((col) => col('status').equal('active'))
+        .and()
+        .where((col) => col('age').greaterThan(18));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `status` = ? AND `age` > ?;'
+      );
+
+      expect(select.get.values()).toEqual(['active', 18]);
+    });
+
+    it('should allow the use of parentheses to group conditions', () => {
+      select
+        .from('users')
+        .paren()
+        .where((col) => col('status').equal('inactive'))
+        .or()
+        .where((col) => col('status').equal('banned'))
+        .paren()
+        .and()
+        .where((col) => col('city').equal('Tokyo'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE (`status` = ? OR `status` = ?) AND `city` = ?;'
+      );
+
+      expect(select.get.values()).toEqual(['inactive', 'banned', 'Tokyo']);
+    });
+
+    it('should throw if the condition is not a function', () => {
       expect(() => {
         select.from('users').where('invalid condition').build();
       }).toThrow('Invalid SELECT condition: invalid condition');
@@ -456,230 +1190,1198 @@ describe('Select', () => {
     });
   });
 
-  describe('and', () => {
-    it('should correctly add an AND operator to the WHERE clause', () => {
-      select
+  describe('standalone conditions', () => {
+    it('should reuse a condition across queries', () => {
+      const active = condition((col) =>
+        col('status').equal('active').and().col('deleted_at').isNull()
+      );
+
+      const pg = mock.connection();
+      pg.driver = { id: Symbol('PostgreSQL') };
+
+      const users = new Select(pg).from('users').where(active);
+      const posts = select
+        .from('posts')
+        .where((col) => col('likes').greaterThan(10))
+        .and()
+        .where(active);
+
+      expect(users.build()).toBe(
+        'SELECT * FROM "users" WHERE ("status" = $1 AND "deleted_at" IS NULL);'
+      );
+      expect(users.get.values()).toEqual(['active']);
+
+      expect(posts.build()).toBe(
+        'SELECT * FROM `posts` WHERE `likes` > ? AND (`status` = ? AND `deleted_at` IS NULL);'
+      );
+      expect(posts.get.values()).toEqual([10, 'active']);
+    });
+
+    it('should accept conditions in joins and having', () => {
+      select
+        .from('users')
+        .join(
+          'orders',
+          condition((col) => col('users.id').equal(ref('orders.user_id')))
+        )
+        .groupBy('users.id')
+        .having(condition((col) => col(expr('COUNT(*)')).greaterThan(5)));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` INNER JOIN `orders` ON `users`.`id` = `orders`.`user_id` GROUP BY `users`.`id` HAVING COUNT(*) > ?;'
+      );
+      expect(select.get.values()).toEqual([5]);
+    });
+
+    it('should collect values in placeholders order', () => {
+      select
+        .from('users')
+        .union((select) =>
+          select.from('admins').where((col) => col('level').equal(3))
+        )
+        .having((col) => col(expr('COUNT(*)')).greaterThan(2))
+        .where((col) => col('age').greaterThan(18))
+        .join('orders', (col) => col('orders.total').greaterThan(100));
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM `users` INNER JOIN `orders` ON `orders`.`total` > ? WHERE `age` > ? HAVING COUNT(*) > ?) UNION (SELECT * FROM `admins` WHERE `level` = ?);'
+      );
+      expect(select.get.values()).toEqual([100, 18, 2, 3]);
+
+      // Building again gives the same values
+      select.build();
+      expect(select.get.values()).toEqual([100, 18, 2, 3]);
+    });
+  });
+
+  describe('where values', () => {
+    it('should serialize values for the connection driver', () => {
+      const date = new Date('2024-05-01T10:00:00.000Z');
+
+      select
+        .from('users')
+        .where((col) =>
+          col('active')
+            .equal(true)
+            .and()
+            .col('created_at')
+            .greaterThan(date)
+            .and()
+            .col('deleted_at')
+            .equal(null)
+        );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `active` = ? AND `created_at` > ? AND `deleted_at` IS NULL;'
+      );
+      expect(select.get.values()).toEqual([1, date]);
+
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      expect(select.get.values()).toEqual([true, date]);
+
+      select.connection.driver = { id: Symbol('SQLite') };
+      expect(select.get.values()).toEqual([1, '2024-05-01 10:00:00']);
+    });
+  });
+
+  describe('where filters', () => {
+    it('should add object-style filters', () => {
+      select.from('users').where({
+        status: 'active',
+        role: ['admin', 'editor'],
+        deleted_at: null,
+        age: { gte: 18, lt: 65 },
+      });
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `status` = ? AND `role` IN (?, ?) AND `deleted_at` IS NULL AND `age` >= ? AND `age` < ?;'
+      );
+      expect(select.get.values()).toEqual([
+        'active',
+        'admin',
+        'editor',
+        18,
+        65,
+      ]);
+    });
+
+    it('should group filters in andWhere and orWhere', () => {
+      select
+        .from('users')
+        .where({ status: 'active' })
+        .orWhere({ role: 'admin', verified: 1 });
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `status` = ? OR (`role` = ? AND `verified` = ?);'
+      );
+    });
+  });
+
+  describe('andWhere & orWhere', () => {
+    it('should skip the logical operator for the first condition', () => {
+      select.from('users').andWhere((col) => col('id').equal(1));
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `id` = ?;');
+
+      select
+        .reset()
+        .from('users')
+        .orWhere((col) => col('id').equal(1));
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `id` = ?;');
+    });
+
+    it('should add the logical operator and group the condition', () => {
+      const vip = condition((col) =>
+        col('membership').equal('vip').or().col('points').greaterThan(100)
+      );
+
+      select
+        .from('users')
+        .andWhere((col) => col('age').greaterThan(18))
+        .andWhere(vip)
+        .orWhere((col) => col('role').equal('admin'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `age` > ? AND (`membership` = ? OR `points` > ?) OR `role` = ?;'
+      );
+      expect(select.get.values()).toEqual([18, 'vip', 100, 'admin']);
+    });
+
+    it('should group raw conditions', () => {
+      select
+        .from('users')
+        .where((col) => col('x').equal(1))
+        .andWhere((col, con) => con.raw('a = 1 OR b = 2'))
+        .orWhere(condition((col, con) => con.raw('c = 3')));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `x` = ? AND (a = 1 OR b = 2) OR (c = 3);'
+      );
+    });
+
+    it('should group an OR condition that comes first', () => {
+      select
+        .from('users')
+        .andWhere((col) => col('a').equal(1).or().col('b').equal(2))
+        .andWhere((col) => col('c').equal(3));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE (`a` = ? OR `b` = ?) AND `c` = ?;'
+      );
+      expect(select.get.values()).toEqual([1, 2, 3]);
+    });
+
+    it('should skip the logical operator in opened parentheses', () => {
+      select
+        .from('users')
+        .where((col) => col('active').equal(1))
+        .and()
+        .paren()
+        .andWhere((col) => col('role').equal('admin'))
+        .orWhere((col) => col('role').equal('editor'))
+        .paren();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `active` = ? AND (`role` = ? OR `role` = ?);'
+      );
+    });
+
+    it('should support subqueries in callback conditions', () => {
+      select
+        .from('users')
+        .where((col) => col('active').equal(1))
+        .andWhere((col) =>
+          col('id').inSubquery((s) => s.col('user_id').from('orders'))
+        );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `active` = ? AND `id` IN (SELECT `user_id` FROM `orders`);'
+      );
+    });
+
+    it('should throw if the condition is invalid', () => {
+      expect(() => select.andWhere('invalid')).toThrow(
+        'Invalid SELECT condition: invalid'
+      );
+
+      expect(() => select.orWhere(null)).toThrow(
+        'Invalid SELECT condition: null'
+      );
+    });
+  });
+
+  describe('group', () => {
+    it('should add groups to the WHERE clause', () => {
+      select
+        .from('users')
+        .group((col) =>
+          col('role').equal('admin').or().col('role').equal('editor')
+        )
+        .andGroup((col) => col('age').greaterThan(18))
+        .orGroup((col, con) =>
+          con.notGroup((col) =>
+            col('banned').equal(1).or().col('deleted').equal(1)
+          )
+        );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE (`role` = ? OR `role` = ?) AND (`age` > ?) OR (NOT (`banned` = ? OR `deleted` = ?));'
+      );
+
+      expect(select.get.values()).toEqual(['admin', 'editor', 18, 1, 1]);
+    });
+
+    it('should negate a group', () => {
+      select
+        .from('users')
+        .where((col) => col('active').equal(1))
+        .and()
+        .notGroup((col) => col('role').equal('guest'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `active` = ? AND NOT (`role` = ?);'
+      );
+    });
+  });
+
+  describe('and', () => {
+    it('should correctly add an AND operator to the WHERE clause', () => {
+      select
+        .from('users')
+        .where((col) => col('status').equal('banned'))
+        .and()
+        .where((col) => col('city').equal('Tokyo'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `status` = ? AND `city` = ?;'
+      );
+      expect(select.get.values()).toEqual(['banned', 'Tokyo']);
+    });
+
+    it('should throw when AND is called at the beginning of the query', () => {
+      expect(() => {
+        select.from('users').and().build();
+      }).toThrow('Invalid SELECT condition');
+    });
+  });
+
+  describe('or', () => {
+    it('should correctly add an OR operator to the WHERE clause', () => {
+      select
+        .from('users')
+        .where((col) => col('status').equal('inactive'))
+        .or()
+        .where((col) => col('status').equal('banned'));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `status` = ? OR `status` = ?;'
+      );
+
+      expect(select.get.values()).toEqual(['inactive', 'banned']);
+    });
+
+    it('should throw when OR is called at the beginning of the query', () => {
+      expect(() => {
+        select.from('users').or().build();
+      }).toThrow('Invalid SELECT condition');
+    });
+  });
+
+  describe('paren', () => {
+    it('should correctly add parentheses around conditions', () => {
+      select
+        .from('users')
+        .where((col) => col('city').equal('Tokyo'))
+        .and()
+        .paren()
+        .where((col) => col('status').equal('inactive'))
+        .or()
+        .where((col) => col('status').equal('banned'))
+        .paren();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE `city` = ? AND (`status` = ? OR `status` = ?);'
+      );
+
+      expect(select.get.values()).toEqual(['Tokyo', 'inactive', 'banned']);
+    });
+
+    it('should create a new WHERE condition if none exists before paren()', () => {
+      select
+        .from('users')
+        .paren()
+        .where((col) => col('status').equal('inactive'))
+        .paren();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE (`status` = ?);'
+      );
+      expect(select.get.values()).toEqual(['inactive']);
+    });
+  });
+
+  describe('open & close', () => {
+    it('should open parentheses for grouping conditions', () => {
+      select
+        .from('users')
+        .open()
+        .open()
+        .where((col) => col('status').equal('inactive'))
+        .or()
+        .where((col) => col('status').equal('banned'))
+        .close()
+        .and()
+        .where((col) => col('city').equal('Tokyo'))
+        .close()
+        .build();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` WHERE ((`status` = ? OR `status` = ?) AND `city` = ?);'
+      );
+      expect(select.get.values()).toEqual(['inactive', 'banned', 'Tokyo']);
+    });
+
+    it('should throw an error if there is no open parenthesis to close', () => {
+      expect(() => {
+        select.close();
+      }).toThrow('Invalid SELECT condition');
+    });
+  });
+
+  describe('having', () => {
+    it('should correctly add a HAVING clause with a valid condition', () => {
+      select
+        .from('sales')
+        .groupBy('product_id')
+        .having((col) => col('SUM(price)').greaterThan(1000));
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `sales` GROUP BY `product_id` HAVING SUM(price) > ?;'
+      );
+      expect(select.get.values()).toEqual([1000]);
+    });
+
+    it('should throw an error if the condition is not a function', () => {
+      expect(() => {
+        select.from('sales').having('invalid condition');
+      }).toThrow('Invalid HAVING condition: invalid condition');
+    });
+
+    it('should throw an error if the condition function is not provided', () => {
+      expect(() => {
+        select.from('sales').having().build();
+      }).toThrow('Invalid HAVING condition: undefined');
+    });
+  });
+
+  describe('union', () => {
+    it('should correctly add a UNION with a subquery', () => {
+      select
+        .from('users')
+        .where((col) => col('membership').equal('gold'))
+        .union((select) => {
+          select.from('users').where((col) => col('membership').equal('vip'));
+        });
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?);'
+      );
+
+      expect(select.get.values()).toEqual(['gold', 'vip']);
+    });
+
+    it('should throw an error if the subquery is not a function', () => {
+      expect(() => {
+        select.union('invalid subquery');
+      }).toThrow('Invalid UNION subquery: invalid subquery');
+    });
+
+    it('should correctly chain multiple UNIONs', () => {
+      select
+        .from('users')
+        .where((col) => col('membership').equal('gold'))
+        .union((select) =>
+          select.from('users').where((col) => col('membership').equal('vip'))
+        )
+        .union((select) =>
+          select
+            .from('users')
+            .where((col) => col('membership').equal('platinum'))
+        );
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?);'
+      );
+      expect(select.get.values()).toEqual(['gold', 'vip', 'platinum']);
+    });
+  });
+
+  describe('unionAll', () => {
+    it('should correctly add a UNION ALL with a subquery', () => {
+      select
+        .from('users')
+        .where((col) => col('membership').equal('gold'))
+        .unionAll((subSelect) => {
+          subSelect
+            .from('users')
+            .where((col) => col('membership').equal('vip'));
+        });
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ALL ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?);'
+      );
+      expect(select.get.values()).toEqual(['gold', 'vip']);
+    });
+
+    it('should throw an error if the subquery is not a function', () => {
+      expect(() => {
+        select.unionAll('invalid subquery');
+      }).toThrow('Invalid UNION ALL subquery: invalid subquery');
+    });
+
+    it('should correctly chain multiple UNION ALLs', () => {
+      select
+        .from('users')
+        .where((col) => col('membership').equal('gold'))
+        .unionAll((subSelect) => {
+          subSelect
+            .from('users')
+            .where((col) => col('membership').equal('vip'));
+        })
+        .unionAll((subSelect) => {
+          subSelect
+            .from('users')
+            .where((col) => col('membership').equal('platinum'));
+        });
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ALL ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?) ' +
+          'UNION ALL ' +
+          '(SELECT * FROM `users` WHERE `membership` = ?);'
+      );
+      expect(select.get.values()).toEqual(['gold', 'vip', 'platinum']);
+    });
+  });
+
+  describe('intersect & except', () => {
+    beforeEach(() => {
+      select.version('8.0.31');
+    });
+
+    it('should add INTERSECT and INTERSECT ALL', () => {
+      select
+        .col('email')
+        .from('users')
+        .intersect((select) => select.col('email').from('admins'));
+
+      expect(select.build()).toBe(
+        '(SELECT `email` FROM `users`) INTERSECT (SELECT `email` FROM `admins`);'
+      );
+
+      select
+        .reset()
+        .col('email')
+        .from('users')
+        .intersectAll((select) => select.col('email').from('admins'));
+
+      expect(select.build()).toBe(
+        '(SELECT `email` FROM `users`) INTERSECT ALL (SELECT `email` FROM `admins`);'
+      );
+    });
+
+    it('should add EXCEPT and EXCEPT ALL', () => {
+      select
+        .col('email')
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .except((select) =>
+          select
+            .col('email')
+            .from('banned')
+            .where((col) => col('until').greaterThan(2025))
+        );
+
+      expect(select.build()).toBe(
+        '(SELECT `email` FROM `users` WHERE `age` > ?) EXCEPT (SELECT `email` FROM `banned` WHERE `until` > ?);'
+      );
+
+      expect(select.get.values()).toEqual([18, 2025]);
+
+      select
+        .reset()
+        .col('email')
+        .from('users')
+        .exceptAll((select) => select.col('email').from('banned'));
+
+      expect(select.build()).toBe(
+        '(SELECT `email` FROM `users`) EXCEPT ALL (SELECT `email` FROM `banned`);'
+      );
+    });
+
+    it('should throw if the subquery is not a function', () => {
+      expect(() => select.intersect('x')).toThrow(
+        'Invalid INTERSECT subquery: x'
+      );
+
+      expect(() => select.intersectAll('x')).toThrow(
+        'Invalid INTERSECT ALL subquery: x'
+      );
+
+      expect(() => select.except('x')).toThrow('Invalid EXCEPT subquery: x');
+
+      expect(() => select.exceptAll('x')).toThrow(
+        'Invalid EXCEPT ALL subquery: x'
+      );
+    });
+
+    it('should apply ORDER BY, LIMIT and OFFSET to the combined results', () => {
+      select
+        .col('email')
+        .from('users')
+        .union((select) =>
+          select.col('email').from('admins').orderBy('id', DESC).limit(5)
+        )
+        .orderBy('email')
+        .limit(10)
+        .offset(20);
+
+      expect(select.build()).toBe(
+        '(SELECT `email` FROM `users`) UNION (SELECT `email` FROM `admins` ORDER BY `id` DESC LIMIT 5) ORDER BY `email` ASC LIMIT 10 OFFSET 20;'
+      );
+    });
+
+    it('should apply set operations from left to right', () => {
+      select
+        .col('email')
+        .from('users')
+        .union((select) => select.col('email').from('admins'))
+        .intersect((select) => select.col('email').from('active'))
+        .except((select) => select.col('email').from('banned'));
+
+      expect(select.build()).toBe(
+        '(((SELECT `email` FROM `users`) UNION (SELECT `email` FROM `admins`)) ' +
+          'INTERSECT (SELECT `email` FROM `active`)) ' +
+          'EXCEPT (SELECT `email` FROM `banned`);'
+      );
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+
+      select
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .intersect((select) =>
+          select.from('users').where((col) => col('city').equal('Tokyo'))
+        );
+
+      expect(select.build()).toBe(
+        '(SELECT * FROM "users" WHERE "age" > $1) INTERSECT (SELECT * FROM "users" WHERE "city" = $2);'
+      );
+    });
+
+    it('should not wrap operands in parentheses for SQLite', () => {
+      select.connection.driver = { id: Symbol('SQLite') };
+
+      select
+        .col('email')
+        .from('users')
+        .union((select) => select.col('email').from('admins'))
+        .intersect((select) =>
+          select.col('email').from('active').orderBy('id').limit(5)
+        )
+        .orderBy('email');
+
+      expect(select.build()).toBe(
+        'SELECT "email" FROM "users" ' +
+          'UNION SELECT "email" FROM "admins" ' +
+          'INTERSECT SELECT * FROM (SELECT "email" FROM "active" ORDER BY "id" ASC LIMIT 5) ' +
+          'ORDER BY "email" ASC;'
+      );
+    });
+
+    it('should require MySQL 8.0.31 or later', () => {
+      const build = (version?: string) => {
+        const query = new Select(mock.connection());
+        if (version) query.version(version);
+
+        return () =>
+          query
+            .from('users')
+            .intersect((select) => select.from('admins'))
+            .build();
+      };
+
+      expect(build()).toThrow(
+        new QueryError(
+          'INTERSECT requires MySQL 8.0.31 or later, declare the server version with version()'
+        )
+      );
+
+      expect(build('8.0.30')).toThrow(QueryError);
+      expect(build('5.7')).toThrow(QueryError);
+      expect(build('8.0.31')).not.toThrow();
+      expect(build('8.4')).not.toThrow();
+      expect(build('10.6.12-MariaDB')).not.toThrow();
+
+      const except = new Select(mock.connection())
+        .from('users')
+        .except((select) => select.from('admins'));
+
+      expect(() => except.build()).toThrow(
+        'EXCEPT requires MySQL 8.0.31 or later'
+      );
+
+      // UNION is supported by every version
+      expect(() =>
+        new Select(mock.connection())
+          .from('users')
+          .union((select) => select.from('admins'))
+          .build()
+      ).not.toThrow();
+    });
+
+    it('should pass the server version to subqueries and clones', () => {
+      select.from(
+        (select) =>
+          select.from('users').intersect((select) => select.from('admins')),
+        't'
+      );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM ((SELECT * FROM `users`) INTERSECT (SELECT * FROM `admins`)) AS `t`;'
+      );
+
+      const copy = select
+        .reset()
+        .from('users')
+        .clone()
+        .except((select) => select.from('banned'));
+
+      expect(copy.build()).toBe(
+        '(SELECT * FROM `users`) EXCEPT (SELECT * FROM `banned`);'
+      );
+    });
+
+    it('should throw for invalid server versions', () => {
+      expect(() => select.version('latest')).toThrow(
+        new QueryError('Invalid server version: latest')
+      );
+
+      expect(() => select.version(8 as any)).toThrow(
+        new QueryError('Invalid server version: 8')
+      );
+    });
+
+    it('should throw for INTERSECT ALL and EXCEPT ALL in SQLite', () => {
+      select.connection.driver = { id: Symbol('SQLite') };
+
+      select.from('users').intersectAll((select) => select.from('admins'));
+      expect(() => select.build()).toThrow(
+        'INTERSECT ALL is not supported by SQLite, use intersect()'
+      );
+
+      select
+        .reset()
+        .from('users')
+        .exceptAll((select) => select.from('admins'));
+      expect(() => select.build()).toThrow(
+        'EXCEPT ALL is not supported by SQLite, use except()'
+      );
+    });
+  });
+
+  describe('locking', () => {
+    it('should add FOR UPDATE after LIMIT and OFFSET', () => {
+      select
+        .from('jobs')
+        .where((col) => col('status').equal('pending'))
+        .limit(10)
+        .offset(20)
+        .forUpdate()
+        .skipLocked();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `jobs` WHERE `status` = ? LIMIT 10 OFFSET 20 FOR UPDATE SKIP LOCKED;'
+      );
+    });
+
+    it('should add FOR SHARE with OF tables and NOWAIT', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select
+        .from('orders')
+        .join('users', using('user_id'))
+        .forShare()
+        .of('orders', 'users')
+        .noWait();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM "orders" INNER JOIN "users" USING ("user_id") FOR SHARE OF "orders", "users" NOWAIT;'
+      );
+    });
+
+    it('should add FOR NO KEY UPDATE for PostgreSQL', () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select.from('users').forNoKeyUpdate();
+
+      expect(select.build()).toBe('SELECT * FROM "users" FOR NO KEY UPDATE;');
+    });
+
+    it('should keep the options when the mode changes', () => {
+      select.from('users').forUpdate().of('users').noWait().forShare();
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` FOR SHARE OF `users` NOWAIT;'
+      );
+    });
+
+    it('should reject unsupported locking clauses', () => {
+      select.from('users').forNoKeyUpdate();
+      expect(() => select.build()).toThrow(
+        'FOR NO KEY UPDATE is not supported by MySQL, use forUpdate()'
+      );
+
+      select.connection.driver = { id: Symbol('SQLite') };
+      select.forUpdate();
+      expect(() => select.build()).toThrow(
+        'FOR UPDATE is not supported by SQLite, transactions lock the whole database'
+      );
+
+      select.connection.driver = { id: Symbol('MySQL') };
+      select.unionAll((select) => select.from('admins'));
+      expect(() => select.build()).toThrow(
+        'FOR UPDATE cannot be used with UNION'
+      );
+    });
+
+    it('should throw for options without a locking clause', () => {
+      expect(() => select.of('users')).toThrow('Missing locking clause: OF');
+      expect(() => select.noWait()).toThrow('Missing locking clause: NOWAIT');
+      expect(() => select.skipLocked()).toThrow(
+        'Missing locking clause: SKIP LOCKED'
+      );
+    });
+
+    it('should throw for invalid OF tables', () => {
+      expect(() => select.forUpdate().of('')).toThrow('Invalid OF tables: ');
+    });
+
+    it('should be cleared by reset', () => {
+      select.from('users').forUpdate().reset().from('users');
+      expect(select.build()).toBe('SELECT * FROM `users`;');
+    });
+  });
+
+  describe('first', () => {
+    it('should resolve with the first row', async () => {
+      select.connection.query.mockResolvedValue([{ id: 1 }]);
+
+      const row = await select
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .first();
+
+      expect(row).toEqual({ id: 1 });
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` WHERE `age` > ? LIMIT 1;',
+        [18]
+      );
+
+      // The query state is left unchanged
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `age` > ?;');
+    });
+
+    it('should resolve with undefined if no row matches', async () => {
+      select.connection.query.mockResolvedValue([]);
+      await expect(select.from('users').first()).resolves.toBeUndefined();
+    });
+
+    it('should keep a lower limit', async () => {
+      select.connection.query.mockResolvedValue([]);
+      await select.from('users').limit(0).first();
+
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` LIMIT 0;',
+        []
+      );
+    });
+
+    it('should reject if the query is invalid', async () => {
+      await expect(select.first()).rejects.toThrow(
+        'Invalid SELECT table: undefined'
+      );
+    });
+  });
+
+  describe('one', () => {
+    it('should resolve with the only row', async () => {
+      select.connection.query.mockResolvedValue([{ id: 1 }]);
+
+      await expect(select.from('users').one()).resolves.toEqual({ id: 1 });
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` LIMIT 2;',
+        []
+      );
+    });
+
+    it('should reject unless exactly one row matches', async () => {
+      select.from('users');
+
+      select.connection.query.mockResolvedValue([]);
+      await expect(select.one()).rejects.toThrow(
+        'No row found, expected exactly one'
+      );
+
+      select.connection.query.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      await expect(select.one()).rejects.toThrow(
+        'Multiple rows found, expected exactly one'
+      );
+    });
+  });
+
+  describe('value', () => {
+    it('should resolve with the value of the first row', async () => {
+      select.connection.query.mockResolvedValue([{ email: 'john@mail.com' }]);
+
+      const email = await select
+        .col('id', 'name')
         .from('users')
-        .where((col) => col('status').equal('banned'))
-        .and()
-        .where((col) => col('city').equal('Tokyo'));
+        .where((col) => col('id').equal(5))
+        .value('email');
+
+      expect(email).toBe('john@mail.com');
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `email` FROM `users` WHERE `id` = ? LIMIT 1;',
+        [5]
+      );
 
       expect(select.build()).toBe(
-        'SELECT * FROM users WHERE status = ? AND city = ?;'
+        'SELECT `id`, `name` FROM `users` WHERE `id` = ?;'
       );
-      expect(select.values).toEqual(['banned', 'Tokyo']);
     });
 
-    it('should throw when AND is called at the beginning of the query', () => {
-      expect(() => {
-        select.from('users').and().build();
-      }).toThrow('Invalid SELECT condition');
+    it('should support expressions', async () => {
+      select.connection.query.mockResolvedValue([{ 'MAX(age)': 42 }]);
+
+      await expect(select.from('users').value(expr('MAX(age)'))).resolves.toBe(
+        42
+      );
     });
-  });
 
-  describe('or', () => {
-    it('should correctly add an OR operator to the WHERE clause', () => {
-      select
-        .from('users')
-        .where((col) => col('status').equal('inactive'))
-        .or()
-        .where((col) => col('status').equal('banned'));
+    it('should resolve with undefined if no row matches', async () => {
+      select.connection.query.mockResolvedValue([]);
+      await expect(select.from('users').value('id')).resolves.toBeUndefined();
+    });
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE status = ? OR status = ?;'
-      );
+    it('should select from compound queries as a derived table', async () => {
+      select.connection.query.mockResolvedValue([{ a: 1 }]);
+
+      await select
+        .col('a', 'b')
+        .from('t')
+        .union((q) => q.col('a', 'b').from('u'))
+        .value('a');
 
-      expect(select.values).toEqual(['inactive', 'banned']);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `a` FROM ((SELECT `a`, `b` FROM `t`) UNION (SELECT `a`, `b` FROM `u`) LIMIT 1) AS `t`;',
+        []
+      );
     });
 
-    it('should throw when OR is called at the beginning of the query', () => {
-      expect(() => {
-        select.from('users').or().build();
-      }).toThrow('Invalid SELECT condition');
+    it('should reject invalid columns', async () => {
+      await expect(select.from('users').value('')).rejects.toThrow(
+        'Invalid VALUE column: '
+      );
     });
   });
 
-  describe('paren', () => {
-    it('should correctly add parentheses around conditions', () => {
-      select
+  describe('pluck', () => {
+    it('should resolve with the values of a column', async () => {
+      select.connection.query.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+      const ids = await select
         .from('users')
-        .where((col) => col('city').equal('Tokyo'))
-        .and()
-        .paren()
-        .where((col) => col('status').equal('inactive'))
-        .or()
-        .where((col) => col('status').equal('banned'))
-        .paren();
+        .where((col) => col('active').equal(1))
+        .pluck('users.id');
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE city = ? AND (status = ? OR status = ?);'
+      expect(ids).toEqual([1, 2]);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `users`.`id` FROM `users` WHERE `active` = ?;',
+        [1]
       );
+    });
+
+    it('should select from compound queries as a derived table', async () => {
+      select.connection.query.mockResolvedValue([{ a: 1 }, { a: 2 }]);
 
-      expect(select.values).toEqual(['Tokyo', 'inactive', 'banned']);
+      const values = await select
+        .version('8.0.31')
+        .col('a', 'b')
+        .from('t')
+        .where((col) => col('b').equal(1))
+        .except((q) => q.col('a', 'b').from('u'))
+        .pluck('a');
+
+      expect(values).toEqual([1, 2]);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `a` FROM ((SELECT `a`, `b` FROM `t` WHERE `b` = ?) EXCEPT (SELECT `a`, `b` FROM `u`)) AS `t`;',
+        [1]
+      );
     });
 
-    it('should create a new WHERE condition if none exists before paren()', () => {
-      select
-        .from('users')
-        .paren()
-        .where((col) => col('status').equal('inactive'))
-        .paren();
+    it('should keep the grouping and limit of the query', async () => {
+      select.connection.query.mockResolvedValue([{ email: 'a@b.c' }]);
+
+      const emails = await select
+        .col('u.email', expr('COUNT(*) AS total'))
+        .from('users AS u')
+        .join('orders AS o', (col) => col('o.user_id').equal(ref('u.id')))
+        .groupBy('u.id', 'u.email')
+        .limit(10)
+        .pluck('u.email');
+
+      expect(emails).toEqual(['a@b.c']);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `u`.`email` FROM `users` AS `u` INNER JOIN `orders` AS `o` ON `o`.`user_id` = `u`.`id` GROUP BY `u`.`id`, `u`.`email` LIMIT 10;',
+        []
+      );
+    });
+
+    it('should unqualify columns of compound queries', async () => {
+      select.connection.query.mockResolvedValue([{ email: 'a@b.c' }]);
+
+      const emails = await select
+        .col('u.email')
+        .from('users AS u')
+        .union((q) => q.col('a.email').from('admins AS a'))
+        .pluck('u.email');
 
-      expect(select.build()).toBe('SELECT * FROM users WHERE (status = ?);');
-      expect(select.values).toEqual(['inactive']);
+      expect(emails).toEqual(['a@b.c']);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT `email` FROM ((SELECT `u`.`email` FROM `users` AS `u`) UNION (SELECT `a`.`email` FROM `admins` AS `a`)) AS `t`;',
+        []
+      );
+    });
+
+    it('should reject invalid columns', async () => {
+      await expect(select.from('users').pluck(1 as any)).rejects.toThrow(
+        'Invalid PLUCK column: 1'
+      );
     });
   });
 
-  describe('open & close', () => {
-    it('should open parentheses for grouping conditions', () => {
-      select
+  describe('exists', () => {
+    it('should resolve with true if a row matches', async () => {
+      select.connection.query.mockResolvedValue([{ exists: 1 }]);
+
+      const exists = await select
         .from('users')
-        .open()
-        .open()
-        .where((col) => col('status').equal('inactive'))
-        .or()
-        .where((col) => col('status').equal('banned'))
-        .close()
-        .and()
-        .where((col) => col('city').equal('Tokyo'))
-        .close()
-        .build();
+        .where((col) => col('email').equal('john@mail.com'))
+        .exists();
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE ((status = ? OR status = ?) AND city = ?);'
+      expect(exists).toBe(true);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT EXISTS(SELECT * FROM `users` WHERE `email` = ?) AS `exists`;',
+        ['john@mail.com']
       );
-      expect(select.values).toEqual(['inactive', 'banned', 'Tokyo']);
     });
 
-    it('should throw an error if there is no open parenthesis to close', () => {
-      expect(() => {
-        select.close();
-      }).toThrow('Invalid SELECT condition');
+    it('should resolve with false if no row matches', async () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select.connection.query.mockResolvedValue([{ exists: false }]);
+
+      await expect(select.from('users').exists()).resolves.toBe(false);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT EXISTS(SELECT * FROM "users") AS "exists";',
+        []
+      );
+
+      select.connection.query.mockResolvedValue([{ exists: 0 }]);
+      await expect(select.exists()).resolves.toBe(false);
+
+      select.connection.query.mockResolvedValue([{ exists: true }]);
+      await expect(select.exists()).resolves.toBe(true);
     });
   });
 
-  describe('having', () => {
-    it('should correctly add a HAVING clause with a valid condition', () => {
-      select
-        .from('sales')
-        .groupBy('product_id')
-        .having((col) => col('SUM(price)').greaterThan(1000));
+  describe('sum, avg, min & max', () => {
+    it('should resolve with the aggregate result', async () => {
+      select.connection.query.mockResolvedValue([{ sum: 150 }]);
+
+      const sum = await select
+        .from('orders')
+        .where((col) => col('status').equal('paid'))
+        .orderBy('id')
+        .sum('amount');
+
+      expect(sum).toBe(150);
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT SUM(`amount`) AS `sum` FROM `orders` WHERE `status` = ?;',
+        ['paid']
+      );
 
+      // The query state is left unchanged
       expect(select.build()).toBe(
-        'SELECT * FROM sales GROUP BY product_id HAVING SUM(price) > ?;'
+        'SELECT * FROM `orders` WHERE `status` = ? ORDER BY `id` ASC;'
       );
-      expect(select.values).toEqual([1000]);
     });
 
-    it('should throw an error if the condition is not a function', () => {
-      expect(() => {
-        select.from('sales').having('invalid condition');
-      }).toThrow('Invalid HAVING condition: invalid condition');
+    it('should build each aggregate function', async () => {
+      select.connection.driver = { id: Symbol('PostgreSQL') };
+      select.connection.query.mockResolvedValue([{ result: 1 }]);
+      select.from('orders');
+
+      await select.avg('amount');
+      await select.min('orders.amount');
+      await select.max(expr('price * quantity'));
+
+      expect(select.connection.query.mock.calls.map((c) => c[0])).toEqual([
+        'SELECT AVG("amount") AS "avg" FROM "orders";',
+        'SELECT MIN("orders"."amount") AS "min" FROM "orders";',
+        'SELECT MAX(price * quantity) AS "max" FROM "orders";',
+      ]);
     });
 
-    it('should throw an error if the condition function is not provided', () => {
-      expect(() => {
-        select.from('sales').having().build();
-      }).toThrow('Invalid HAVING condition: undefined');
+    it('should aggregate limited, grouped and compound queries as a derived table', async () => {
+      select.connection.query.mockResolvedValue([{ sum: 30 }]);
+
+      await select
+        .from('orders')
+        .where((col) => col('status').equal('paid'))
+        .orderBy('id')
+        .limit(10)
+        .sum('orders.amount');
+
+      await select
+        .reset()
+        .col('user_id', 'SUM(amount) AS total')
+        .from('orders')
+        .groupBy('user_id')
+        .avg('total');
+
+      await select
+        .reset()
+        .col('amount')
+        .from('orders')
+        .union((q) => q.col('amount').from('refunds'))
+        .max('amount');
+
+      await select
+        .reset()
+        .distinct()
+        .col('amount')
+        .from('orders')
+        .countDistinct('amount');
+
+      expect(select.connection.query.mock.calls).toEqual([
+        [
+          'SELECT SUM(`amount`) AS `sum` FROM (SELECT * FROM `orders` WHERE `status` = ? ORDER BY `id` ASC LIMIT 10) AS `t`;',
+          ['paid'],
+        ],
+        [
+          'SELECT AVG(`total`) AS `avg` FROM (SELECT `user_id`, SUM(amount) AS `total` FROM `orders` GROUP BY `user_id`) AS `t`;',
+          [],
+        ],
+        [
+          'SELECT MAX(`amount`) AS `max` FROM ((SELECT `amount` FROM `orders`) UNION (SELECT `amount` FROM `refunds`)) AS `t`;',
+          [],
+        ],
+        [
+          'SELECT COUNT(DISTINCT `amount`) AS `count` FROM (SELECT DISTINCT `amount` FROM `orders`) AS `t`;',
+          [],
+        ],
+      ]);
     });
-  });
 
-  describe('union', () => {
-    it('should correctly add a UNION with a subquery', () => {
-      select
-        .from('users')
-        .where((col) => col('membership').equal('gold'))
-        .union((select) => {
-          select.from('users').where((col) => col('membership').equal('vip'));
-        });
+    it('should coerce numeric strings and bigints to numbers', async () => {
+      select.from('orders');
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ' +
-          'SELECT * FROM users WHERE membership = ?;'
-      );
+      select.connection.query.mockResolvedValue([{ sum: '1250.50' }]);
+      await expect(select.sum('amount')).resolves.toBe(1250.5);
 
-      expect(select.values).toEqual(['gold', 'vip']);
+      select.connection.query.mockResolvedValue([{ avg: BigInt(12) }]);
+      await expect(select.avg('amount')).resolves.toBe(12);
     });
 
-    it('should throw an error if the subquery is not a function', () => {
-      expect(() => {
-        select.union('invalid subquery');
-      }).toThrow('Invalid UNION subquery: invalid subquery');
+    it('should resolve with null for empty results', async () => {
+      select.from('orders');
+
+      select.connection.query.mockResolvedValue([{ sum: null }]);
+      await expect(select.sum('amount')).resolves.toBeNull();
+
+      select.connection.query.mockResolvedValue([]);
+      await expect(select.max('amount')).resolves.toBeNull();
     });
 
-    it('should correctly chain multiple UNIONs', () => {
-      select
-        .from('users')
-        .where((col) => col('membership').equal('gold'))
-        .union((select) =>
-          select.from('users').where((col) => col('membership').equal('vip'))
-        )
-        .union((select) =>
-          select
-            .from('users')
-            .where((col) => col('membership').equal('platinum'))
-        );
+    it('should keep non-numeric values', async () => {
+      const date = new Date('2024-01-01');
+      select.connection.query.mockResolvedValue([{ max: date }]);
+      await expect(select.from('orders').max('created_at')).resolves.toBe(date);
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ' +
-          'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ' +
-          'SELECT * FROM users WHERE membership = ?;'
+      select.connection.query.mockResolvedValue([{ min: 'Alice' }]);
+      await expect(select.min('name')).resolves.toBe('Alice');
+    });
+
+    it('should not coerce min and max results', async () => {
+      select.from('addresses');
+
+      select.connection.query.mockResolvedValue([{ min: '00123' }]);
+      await expect(select.min('zip')).resolves.toBe('00123');
+
+      select.connection.query.mockResolvedValue([{ max: '99.90' }]);
+      await expect(select.max('price')).resolves.toBe('99.90');
+    });
+
+    it('should reject invalid columns', async () => {
+      select.from('orders');
+
+      await expect(select.sum('')).rejects.toThrow('Invalid SUM column: ');
+      await expect(select.avg(null)).rejects.toThrow(
+        'Invalid AVG column: null'
+      );
+      await expect(select.min(1 as any)).rejects.toThrow(
+        'Invalid MIN column: 1'
+      );
+      await expect(select.max(undefined)).rejects.toThrow(
+        'Invalid MAX column: undefined'
       );
-      expect(select.values).toEqual(['gold', 'vip', 'platinum']);
     });
   });
 
-  describe('unionAll', () => {
-    it('should correctly add a UNION ALL with a subquery', () => {
-      select
-        .from('users')
-        .where((col) => col('membership').equal('gold'))
-        .unionAll((subSelect) => {
-          subSelect
-            .from('users')
-            .where((col) => col('membership').equal('vip'));
-        });
+  describe('countDistinct', () => {
+    it('should resolve with the number of distinct values', async () => {
+      select.connection.query.mockResolvedValue([{ count: '3' }]);
 
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ALL ' +
-          'SELECT * FROM users WHERE membership = ?;'
+      await expect(
+        select.from('orders').countDistinct('user_id')
+      ).resolves.toBe(3);
+
+      expect(select.connection.query).toHaveBeenCalledWith(
+        'SELECT COUNT(DISTINCT `user_id`) AS `count` FROM `orders`;',
+        []
       );
-      expect(select.values).toEqual(['gold', 'vip']);
     });
 
-    it('should throw an error if the subquery is not a function', () => {
-      expect(() => {
-        select.unionAll('invalid subquery');
-      }).toThrow('Invalid UNION ALL subquery: invalid subquery');
+    it('should resolve with 0 for empty results', async () => {
+      select.connection.query.mockResolvedValue([]);
+      await expect(
+        select.from('orders').countDistinct('user_id')
+      ).resolves.toBe(0);
     });
 
-    it('should correctly chain multiple UNION ALLs', () => {
-      select
-        .from('users')
-        .where((col) => col('membership').equal('gold'))
-        .unionAll((subSelect) => {
-          subSelect
-            .from('users')
-            .where((col) => col('membership').equal('vip'));
-        })
-        .unionAll((subSelect) => {
-          subSelect
-            .from('users')
-            .where((col) => col('membership').equal('platinum'));
-        });
-
-      expect(select.build()).toBe(
-        'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ALL ' +
-          'SELECT * FROM users WHERE membership = ? ' +
-          'UNION ALL ' +
-          'SELECT * FROM users WHERE membership = ?;'
+    it('should reject invalid columns', async () => {
+      await expect(select.from('orders').countDistinct('')).rejects.toThrow(
+        'Invalid COUNT column: '
       );
-      expect(select.values).toEqual(['gold', 'vip', 'platinum']);
     });
   });
 
@@ -707,7 +2409,7 @@ describe('Select', () => {
       // Verify the count returned is correct
       expect(count).toBe(5);
       expect(connection.query).toHaveBeenCalledWith(
-        'SELECT COUNT(*) AS count FROM users WHERE status = ?;',
+        'SELECT COUNT(*) AS `count` FROM `users` WHERE `status` = ?;',
         ['active']
       );
 
@@ -715,6 +2417,27 @@ describe('Select', () => {
       expect(select.state.columns).toEqual(['name', 'age']);
     });
 
+    it('should coerce the count to a number', async () => {
+      jest.spyOn(connection, 'query').mockResolvedValue([{ count: '42' }]);
+      await expect(select.from('users').count()).resolves.toBe(42);
+    });
+
+    it('should count without the locking clause', async () => {
+      jest.spyOn(connection, 'query').mockResolvedValue([{ count: 2 }]);
+
+      select.from('jobs').forUpdate().skipLocked();
+
+      await expect(select.count()).resolves.toBe(2);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS `count` FROM `jobs`;',
+        []
+      );
+
+      expect(select.build()).toBe(
+        'SELECT * FROM `jobs` FOR UPDATE SKIP LOCKED;'
+      );
+    });
+
     it('should reject if there is an issue', async () => {
       // Mock the database response for the query with an error
       const mockError = new Error('Ops');
@@ -726,33 +2449,223 @@ describe('Select', () => {
         .from('users')
         .where((col) => col('status').equal('active'));
 
-      await expect(select.count()).rejects.toThrow('Ops');
+      await expect(select.count()).rejects.toThrow('Ops');
+
+      // Verify the query was made as expected
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS `count` FROM `users` WHERE `status` = ?;',
+        ['active']
+      );
+
+      // Verify the state is preserved
+      expect(select.state.columns).toEqual(['name', 'age']);
+    });
+
+    it('should reject if no table is specified', async () => {
+      // Try to call count without specifying a table
+      await expect(select.count()).rejects.toThrow(
+        'Invalid SELECT table: undefined'
+      );
+    });
+
+    it('should resolve with 0 if no row is returned', async () => {
+      jest.spyOn(connection, 'query').mockResolvedValue([]);
+      await expect(select.from('users').count()).resolves.toBe(0);
+    });
+
+    it.each([
+      [
+        'plain queries',
+        (s) => s.from('users'),
+        'SELECT COUNT(*) AS `count` FROM `users`;',
+      ],
+      [
+        'ordered queries',
+        (s) => s.from('users').orderBy('name'),
+        'SELECT COUNT(*) AS `count` FROM `users`;',
+      ],
+      [
+        'joined queries',
+        (s) => s.from('users').join('orders', using('user_id')),
+        'SELECT COUNT(*) AS `count` FROM `users` INNER JOIN `orders` USING (`user_id`);',
+      ],
+      [
+        'distinct queries',
+        (s) => s.col('city').from('users').distinct().orderBy('city'),
+        'SELECT COUNT(*) AS `count` FROM (SELECT DISTINCT `city` FROM `users`) AS `t`;',
+      ],
+      [
+        'grouped queries',
+        (s) => s.col('city').from('users').groupBy('city'),
+        'SELECT COUNT(*) AS `count` FROM (SELECT `city` FROM `users` GROUP BY `city`) AS `t`;',
+      ],
+      [
+        'grouped queries with having',
+        (s) =>
+          s
+            .col('city', expr('COUNT(*) AS total'))
+            .from('users')
+            .groupBy('city')
+            .having((col) => col(expr('COUNT(*)')).greaterThan(5)),
+        'SELECT COUNT(*) AS `count` FROM (SELECT `city`, COUNT(*) AS total FROM `users` GROUP BY `city` HAVING COUNT(*) > ?) AS `t`;',
+      ],
+      [
+        'limited queries',
+        (s) => s.from('users').orderBy('id', DESC).limit(10),
+        'SELECT COUNT(*) AS `count` FROM (SELECT * FROM `users` ORDER BY `id` DESC LIMIT 10) AS `t`;',
+      ],
+      [
+        'offset queries',
+        (s) => s.from('users').offset(5),
+        'SELECT COUNT(*) AS `count` FROM (SELECT * FROM `users` OFFSET 5) AS `t`;',
+      ],
+      [
+        'unioned queries',
+        (s) =>
+          s
+            .col('email')
+            .from('users')
+            .orderBy('email')
+            .union((s) => s.col('email').from('admins')),
+        'SELECT COUNT(*) AS `count` FROM ((SELECT `email` FROM `users`) UNION (SELECT `email` FROM `admins`)) AS `t`;',
+      ],
+      [
+        'distinct grouped and limited queries',
+        (s) => s.col('city').from('users').distinct().groupBy('city').limit(3),
+        'SELECT COUNT(*) AS `count` FROM (SELECT DISTINCT `city` FROM `users` GROUP BY `city` LIMIT 3) AS `t`;',
+      ],
+      [
+        'locked and grouped queries',
+        (s) => s.col('city').from('users').groupBy('city').forUpdate(),
+        'SELECT COUNT(*) AS `count` FROM (SELECT `city` FROM `users` GROUP BY `city`) AS `t`;',
+      ],
+    ])('should count %s', async (_, setup, query) => {
+      jest.spyOn(connection, 'query').mockResolvedValue([{ count: 3 }]);
+
+      setup(select);
+      const built = select.build();
+
+      await expect(select.count()).resolves.toBe(3);
+      expect(connection.query).toHaveBeenCalledWith(query, select.get.values());
+
+      // The query state is left unchanged
+      expect(select.build()).toBe(built);
+    });
+
+    it('should number wrapped placeholders for PostgreSQL', async () => {
+      connection.driver = { id: Symbol('PostgreSQL') };
+      jest.spyOn(connection, 'query').mockResolvedValue([{ count: '2' }]);
+
+      const count = await select
+        .col('city')
+        .from('users')
+        .where((col) => col('age').greaterThan(18))
+        .groupBy('city')
+        .having((col) => col(expr('COUNT(*)')).greaterThan(5))
+        .count();
+
+      expect(count).toBe(2);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) AS "count" FROM (SELECT "city" FROM "users" WHERE "age" > $1 GROUP BY "city" HAVING COUNT(*) > $2) AS "t";',
+        [18, 5]
+      );
+    });
+  });
+
+  describe('paginate', () => {
+    let select;
+    let connection;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      select = new Select(connection);
+    });
+
+    it('should count all the pages on each call', async () => {
+      jest
+        .spyOn(connection, 'query')
+        .mockImplementation((query: string) =>
+          Promise.resolve(query.includes('COUNT') ? [{ count: 25 }] : [])
+        );
+
+      select.from('users');
+
+      await select.paginate(1, 10);
+      const pagination = await select.paginate(2, 10);
+
+      expect(pagination.total).toEqual({ pages: 3, items: 25 });
+      expect(connection.query).toHaveBeenNthCalledWith(
+        3,
+        'SELECT COUNT(*) AS `count` FROM `users`;',
+        []
+      );
+      expect(connection.query).toHaveBeenNthCalledWith(
+        4,
+        'SELECT * FROM `users` LIMIT 10 OFFSET 10;',
+        []
+      );
+    });
+
+    it('should leave the query state unchanged', async () => {
+      jest.spyOn(connection, 'query').mockResolvedValue([{ count: 1 }]);
+
+      select.from('users').limit(5);
+      await select.paginate(3, 10);
+
+      expect(select.build()).toBe('SELECT * FROM `users` LIMIT 5;');
+    });
+
+    it('should run the count and page queries concurrently', async () => {
+      const pending = [];
+
+      jest
+        .spyOn(connection, 'query')
+        .mockImplementation(
+          (query: string) =>
+            new Promise((resolve) =>
+              pending.push(() =>
+                resolve(query.includes('COUNT') ? [{ count: 1 }] : [{ id: 1 }])
+              )
+            )
+        );
 
-      // Verify the query was made as expected
-      expect(connection.query).toHaveBeenCalledWith(
-        'SELECT COUNT(*) AS count FROM users WHERE status = ?;',
-        ['active']
-      );
+      const promise = select.from('users').paginate(1, 10);
 
-      // Verify the state is preserved
-      expect(select.state.columns).toEqual(['name', 'age']);
+      // Both queries are sent before any of them resolves
+      expect(connection.query).toHaveBeenCalledTimes(2);
+      pending.forEach((resolve) => resolve());
+
+      await expect(promise).resolves.toMatchObject({
+        result: [{ id: 1 }],
+        total: { pages: 1, items: 1 },
+      });
     });
 
-    it('should reject if no table is specified', async () => {
-      // Try to call count without specifying a table
-      await expect(select.count()).rejects.toThrow(
+    it('should reject if the query is invalid', async () => {
+      await expect(select.paginate(1)).rejects.toThrow(
         'Invalid SELECT table: undefined'
       );
     });
-  });
 
-  describe('paginate', () => {
-    let select;
-    let connection;
+    it('should count the groups of grouped queries', async () => {
+      jest
+        .spyOn(connection, 'query')
+        .mockImplementation((query: string) =>
+          Promise.resolve(query.includes('COUNT') ? [{ count: 4 }] : [])
+        );
 
-    beforeEach(() => {
-      connection = mock.connection();
-      select = new Select(connection);
+      const pagination = await select
+        .col('city')
+        .from('users')
+        .groupBy('city')
+        .paginate(1, 2);
+
+      expect(pagination.total).toEqual({ pages: 2, items: 4 });
+      expect(connection.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) AS `count` FROM (SELECT `city` FROM `users` GROUP BY `city`) AS `t`;',
+        []
+      );
     });
 
     it('should return correct pagination data for valid input', async () => {
@@ -904,4 +2817,541 @@ describe('Select', () => {
       expect(pagination.total.pages).toBe(6); // Total pages should be 6 (55 items / 10 per page)
     });
   });
+
+  describe('cursorPaginate', () => {
+    let select;
+    let connection;
+
+    const cursor = (values: Array<unknown>) =>
+      Buffer.from(JSON.stringify(values)).toString('base64url');
+
+    beforeEach(() => {
+      connection = mock.connection();
+      select = new Select(connection);
+    });
+
+    it('should fetch the first page', async () => {
+      connection.query.mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+      const pagination = await select
+        .from('posts')
+        .cursorPaginate({ orderBy: 'id', limit: 2 });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `posts` ORDER BY `id` ASC LIMIT 3;',
+        []
+      );
+
+      expect(pagination).toEqual({
+        result: [{ id: 1 }, { id: 2 }],
+        cursor: { prev: undefined, next: cursor([2]) },
+        items: 2,
+      });
+    });
+
+    it('should fetch the page after a cursor', async () => {
+      connection.query.mockResolvedValue([{ id: 3 }, { id: 4 }]);
+
+      const pagination = await select
+        .from('posts')
+        .where((col) => col('status').equal('published'))
+        .orderBy('title')
+        .limit(50)
+        .cursorPaginate({ orderBy: 'id', after: cursor([2]), limit: 2 });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `posts` WHERE `status` = ? AND `id` > ? ORDER BY `id` ASC LIMIT 3;',
+        ['published', 2]
+      );
+
+      expect(pagination.result).toEqual([{ id: 3 }, { id: 4 }]);
+      expect(pagination.cursor).toEqual({
+        prev: cursor([3]),
+        next: undefined,
+      });
+
+      // The query state is left unchanged
+      expect(select.build()).toBe(
+        'SELECT * FROM `posts` WHERE `status` = ? ORDER BY `title` ASC LIMIT 50;'
+      );
+      expect(select.get.values()).toEqual(['published']);
+    });
+
+    it('should fetch the page before a cursor', async () => {
+      connection.query.mockResolvedValue([{ id: 4 }, { id: 3 }, { id: 2 }]);
+
+      const pagination = await select
+        .from('posts')
+        .cursorPaginate({ orderBy: 'id', before: cursor([5]), limit: 2 });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `posts` WHERE `id` < ? ORDER BY `id` DESC LIMIT 3;',
+        [5]
+      );
+
+      expect(pagination.result).toEqual([{ id: 3 }, { id: 4 }]);
+      expect(pagination.cursor).toEqual({
+        prev: cursor([3]),
+        next: cursor([4]),
+      });
+    });
+
+    it('should use a row value predicate for columns sorted the same way', async () => {
+      connection.query.mockResolvedValue([{ created_at: '2024-01-01', id: 7 }]);
+
+      const pagination = await select.from('posts').cursorPaginate({
+        orderBy: { created_at: DESC, id: DESC },
+        after: cursor(['2024-01-02', 9]),
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `posts` WHERE (`created_at`, `id`) < (?, ?) ORDER BY `created_at` DESC, `id` DESC LIMIT 11;',
+        ['2024-01-02', 9]
+      );
+
+      expect(pagination.cursor.next).toBeUndefined();
+      expect(pagination.cursor.prev).toBe(cursor(['2024-01-01', 7]));
+    });
+
+    it('should use an expanded predicate for mixed sorting orders', async () => {
+      connection.driver = { id: Symbol('PostgreSQL') };
+      connection.query.mockResolvedValue([]);
+
+      await select.from('posts').cursorPaginate({
+        orderBy: { score: DESC, 'posts.id': ASC },
+        after: cursor([10, 3]),
+      });
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM "posts" WHERE ("score" < $1 OR ("score" = $2 AND "posts"."id" > $3)) ORDER BY "score" DESC, "posts"."id" ASC LIMIT 11;',
+        [10, 10, 3]
+      );
+    });
+
+    it('should restore date and bigint cursor values', async () => {
+      const date = new Date('2024-01-02T03:04:05.678Z');
+      const id = BigInt('9007199254740993');
+
+      connection.query.mockResolvedValue([{ created_at: date, id }, {}]);
+
+      const first = await select.from('posts').cursorPaginate({
+        orderBy: { created_at: DESC, id: DESC },
+        limit: 1,
+      });
+
+      expect(first.cursor.next).toBe(
+        cursor([
+          { date: '2024-01-02T03:04:05.678Z' },
+          { bigint: '9007199254740993' },
+        ])
+      );
+
+      connection.query.mockResolvedValue([]);
+
+      await select.from('posts').cursorPaginate({
+        orderBy: { created_at: DESC, id: DESC },
+        after: first.cursor.next,
+      });
+
+      const values = connection.query.mock.calls.pop()[1];
+
+      expect(values).toEqual([date, id]);
+      expect(values[0]).toBeInstanceOf(Date);
+      expect(typeof values[1]).toBe('bigint');
+    });
+
+    it('should reject sort column values that cannot be encoded', async () => {
+      connection.query.mockResolvedValue([{ id: { a: 1 } }, { id: 2 }]);
+
+      await expect(
+        select.from('users').cursorPaginate({ orderBy: 'id', limit: 1 })
+      ).rejects.toThrow(new QueryError('Invalid cursor column value: id'));
+    });
+
+    it('should reject a missing sort column', async () => {
+      connection.query.mockResolvedValue([{ name: 'John' }, { name: 'Jane' }]);
+
+      await expect(
+        select.from('users').cursorPaginate({ orderBy: 'id', limit: 1 })
+      ).rejects.toThrow('Missing cursor column: id');
+    });
+
+    it('should reject invalid options', async () => {
+      select.from('posts');
+
+      await expect(select.cursorPaginate(null)).rejects.toThrow(
+        'Invalid cursor options: null'
+      );
+
+      await expect(
+        select.cursorPaginate({ orderBy: 'id', after: 'a', before: 'b' })
+      ).rejects.toThrow('Invalid cursor: use either after or before');
+
+      await expect(select.cursorPaginate({ orderBy: [] })).rejects.toThrow(
+        'Invalid cursor ORDER BY: '
+      );
+
+      await expect(
+        select.cursorPaginate({ orderBy: { id: 'DESC' } as any })
+      ).rejects.toThrow('Invalid cursor ORDER BY: [object Object]');
+
+      await expect(
+        select.cursorPaginate({ orderBy: 'id', after: 'oops' })
+      ).rejects.toThrow('Invalid cursor: oops');
+
+      await expect(
+        select.cursorPaginate({ orderBy: 'id', after: cursor([1, 2]) })
+      ).rejects.toThrow(`Invalid cursor: ${cursor([1, 2])}`);
+
+      for (const value of [{ date: 'x' }, { bigint: '1.5' }, { id: 1 }, true]) {
+        await expect(
+          select.cursorPaginate({ orderBy: 'id', after: cursor([value]) })
+        ).rejects.toThrow(`Invalid cursor: ${cursor([value])}`);
+      }
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('simplePaginate', () => {
+    let select;
+    let connection;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      select = new Select(connection);
+    });
+
+    it('should fetch one more item to detect the next page', async () => {
+      connection.query.mockResolvedValue([{ id: 3 }, { id: 4 }, { id: 5 }]);
+
+      const pagination = await select
+        .from('users')
+        .where((col) => col('active').equal(1))
+        .simplePaginate(2, 2);
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` WHERE `active` = ? LIMIT 3 OFFSET 2;',
+        [1]
+      );
+
+      expect(pagination).toEqual({
+        result: [{ id: 3 }, { id: 4 }],
+        page: { current: 2, prev: 1, next: 3, items: 2 },
+      });
+
+      // The query state is left unchanged
+      expect(select.build()).toBe('SELECT * FROM `users` WHERE `active` = ?;');
+    });
+
+    it('should detect the last page', async () => {
+      connection.query.mockResolvedValue([{ id: 1 }]);
+
+      const pagination = await select.from('users').simplePaginate(1);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` LIMIT 11 OFFSET 0;',
+        []
+      );
+
+      expect(pagination.page).toEqual({
+        current: 1,
+        prev: undefined,
+        next: undefined,
+        items: 10,
+      });
+    });
+
+    it('should handle invalid page or items input', async () => {
+      connection.query.mockResolvedValue([]);
+
+      const pagination = await select
+        .from('users')
+        .simplePaginate(-1, 'x' as any);
+
+      expect(pagination.page.current).toBe(1);
+      expect(pagination.page.items).toBe(10);
+    });
+  });
+
+  describe('chunk', () => {
+    let select;
+    let connection;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      select = new Select(connection);
+    });
+
+    it('should process chunks using OFFSET', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([{ id: 3 }]);
+
+      const chunks = [];
+
+      await select
+        .from('users')
+        .orderBy('id')
+        .chunk(2, (rows, index) => chunks.push([index, rows]));
+
+      expect(chunks).toEqual([
+        [0, [{ id: 1 }, { id: 2 }]],
+        [1, [{ id: 3 }]],
+      ]);
+
+      expect(connection.query.mock.calls).toEqual([
+        ['SELECT * FROM `users` ORDER BY `id` ASC LIMIT 2 OFFSET 0;', []],
+        ['SELECT * FROM `users` ORDER BY `id` ASC LIMIT 2 OFFSET 2;', []],
+      ]);
+
+      // The query state is left unchanged
+      expect(select.build()).toBe('SELECT * FROM `users` ORDER BY `id` ASC;');
+    });
+
+    it('should process the rows within LIMIT and OFFSET', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 11 }, { id: 12 }])
+        .mockResolvedValueOnce([{ id: 13 }]);
+
+      const sizes = [];
+
+      await select
+        .from('users')
+        .orderBy('id')
+        .limit(3)
+        .offset(10)
+        .chunk(2, (rows) => sizes.push(rows.length));
+
+      expect(sizes).toEqual([2, 1]);
+      expect(connection.query.mock.calls).toEqual([
+        ['SELECT * FROM `users` ORDER BY `id` ASC LIMIT 2 OFFSET 10;', []],
+        ['SELECT * FROM `users` ORDER BY `id` ASC LIMIT 1 OFFSET 12;', []],
+      ]);
+
+      // The query state is left unchanged
+      expect(select.build()).toBe(
+        'SELECT * FROM `users` ORDER BY `id` ASC LIMIT 3 OFFSET 10;'
+      );
+    });
+
+    it('should not fetch anything with LIMIT 0', async () => {
+      const callback = jest.fn();
+      await select.from('users').limit(0).chunk(2, callback);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should process at most LIMIT rows using keyset pagination', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }, { id: 3 }])
+        .mockResolvedValueOnce([{ id: 3 }, { id: 4 }]);
+
+      const sizes = [];
+
+      await select
+        .from('users')
+        .limit(3)
+        .chunk(2, (rows) => sizes.push(rows.length), 'id');
+
+      expect(sizes).toEqual([2, 1]);
+      expect(connection.query.mock.calls).toEqual([
+        ['SELECT * FROM `users` ORDER BY `id` ASC LIMIT 3;', []],
+        [
+          'SELECT * FROM `users` WHERE `id` > ? ORDER BY `id` ASC LIMIT 2;',
+          [2],
+        ],
+      ]);
+    });
+
+    it('should reject OFFSET with a key', async () => {
+      await expect(
+        select
+          .from('users')
+          .offset(5)
+          .chunk(2, () => {}, 'id')
+      ).rejects.toThrow(
+        new QueryError('OFFSET cannot be used with a chunk key')
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should stop after an empty full chunk', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([]);
+
+      const callback = jest.fn();
+      await select.from('users').chunk(2, callback);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should process chunks using keyset pagination', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }, { id: 3 }])
+        .mockResolvedValueOnce([{ id: 3 }]);
+
+      const chunks = [];
+
+      await select
+        .from('users')
+        .where((col) => col('active').equal(1))
+        .chunk(2, (rows) => chunks.push(rows), 'id');
+
+      expect(chunks).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+
+      expect(connection.query.mock.calls).toEqual([
+        [
+          'SELECT * FROM `users` WHERE `active` = ? ORDER BY `id` ASC LIMIT 3;',
+          [1],
+        ],
+        [
+          'SELECT * FROM `users` WHERE `active` = ? AND `id` > ? ORDER BY `id` ASC LIMIT 3;',
+          [1, 2],
+        ],
+      ]);
+    });
+
+    it('should stop when the callback returns false', async () => {
+      connection.query.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+      const callback = jest.fn(async () => false);
+      await select.from('users').chunk(2, callback);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid arguments', async () => {
+      select.from('users');
+
+      await expect(select.chunk(0, () => {})).rejects.toThrow(
+        'Invalid chunk size: 0'
+      );
+
+      await expect(select.chunk(10, null)).rejects.toThrow(
+        'Invalid chunk callback: null'
+      );
+
+      await expect(select.chunk(10, () => {}, '')).rejects.toThrow(
+        'Invalid chunk key: '
+      );
+
+      expect(connection.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject if a query fails', async () => {
+      connection.query.mockRejectedValue(new Error('Ops'));
+
+      await expect(select.from('users').chunk(10, () => {})).rejects.toThrow(
+        'Ops'
+      );
+    });
+
+    it('should use the cursor of the last row', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }])
+        .mockResolvedValueOnce([]);
+
+      await select.from('users').chunk(1, () => {}, 'users.id');
+
+      expect(connection.query).toHaveBeenLastCalledWith(
+        'SELECT * FROM `users` WHERE `users`.`id` > ? ORDER BY `users`.`id` ASC LIMIT 2;',
+        ['a']
+      );
+    });
+  });
+
+  describe('iterate', () => {
+    let select;
+    let connection;
+
+    beforeEach(() => {
+      connection = mock.connection();
+      select = new Select(connection);
+    });
+
+    it('should iterate over the rows in batches', async () => {
+      connection.query
+        .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+        .mockResolvedValueOnce([{ id: 3 }]);
+
+      const ids = [];
+
+      for await (const row of select.from('users').iterate({ batch: 2 })) {
+        ids.push(row.id);
+      }
+
+      expect(ids).toEqual([1, 2, 3]);
+      expect(connection.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use 100 rows per batch by default', async () => {
+      connection.query.mockResolvedValue([]);
+
+      const rows = [];
+      for await (const row of select.from('users').iterate()) rows.push(row);
+
+      expect(rows).toEqual([]);
+
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` LIMIT 100 OFFSET 0;',
+        []
+      );
+    });
+
+    it('should iterate over the rows within LIMIT', async () => {
+      connection.query.mockResolvedValueOnce([{ id: 1 }, { id: 2 }]);
+
+      const ids = [];
+
+      for await (const row of select.from('users').limit(2).iterate()) {
+        ids.push(row.id);
+      }
+
+      expect(ids).toEqual([1, 2]);
+      expect(connection.query.mock.calls).toEqual([
+        ['SELECT * FROM `users` LIMIT 2 OFFSET 0;', []],
+      ]);
+    });
+
+    it('should iterate using keyset pagination', async () => {
+      connection.query.mockResolvedValue([{ id: 1 }]);
+
+      const rows = [];
+
+      for await (const row of select
+        .from('users')
+        .iterate({ batch: 5, key: 'id' })) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect(connection.query).toHaveBeenCalledWith(
+        'SELECT * FROM `users` ORDER BY `id` ASC LIMIT 6;',
+        []
+      );
+    });
+
+    it('should stop fetching when breaking out of the loop', async () => {
+      connection.query.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+      for await (const row of select.from('users').iterate({ batch: 2 })) {
+        if (row.id === 1) break;
+      }
+
+      expect(connection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw for an invalid batch size', async () => {
+      const iterator = select.from('users').iterate({ batch: -1 });
+
+      await expect(iterator.next()).rejects.toThrow('Invalid chunk size: -1');
+    });
+  });
 });
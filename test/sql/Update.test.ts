@@ -1,5 +1,5 @@
 import { Update } from '../../src';
-import { Condition } from '../../src';
+import { Condition, condition } from '../../src';
 import { QueryError } from '@megaorm/errors';
 
 const mock = {
@@ -36,7 +36,7 @@ describe('Update', () => {
       update.set({ first_name: 'John', age: 30 });
 
       expect(update.state.columns).toEqual(['first_name', 'age']);
-      expect(update.values).toEqual(['John', 30]);
+      expect(update.state.values).toEqual(['John', 30]);
     });
 
     it('should throw QueryError if row is not an object', () => {
@@ -56,27 +56,27 @@ describe('Update', () => {
     it('should allow boolean values using 1 and 0', () => {
       expect(() => update.set({ is_active: 1, is_verified: 0 })).not.toThrow();
       expect(update.state.columns).toEqual(['is_active', 'is_verified']);
-      expect(update.values).toEqual([1, 0]);
+      expect(update.state.values).toEqual([1, 0]);
     });
 
     it('should allow null', () => {
       expect(() => update.set({ description: null })).not.toThrow();
       expect(update.state.columns).toEqual(['description']);
-      expect(update.values).toEqual([null]);
+      expect(update.state.values).toEqual([null]);
     });
 
     it('should allow JSON string values', () => {
       const jsonString = JSON.stringify({ key: 'value' });
       expect(() => update.set({ data: jsonString })).not.toThrow();
       expect(update.state.columns).toEqual(['data']);
-      expect(update.values).toEqual([jsonString]);
+      expect(update.state.values).toEqual([jsonString]);
     });
 
     it('should allow date strings in "YYYY-MM-DD hh:mm:ss" format', () => {
       const dateString = '2023-12-01 12:00:00';
       expect(() => update.set({ last_updated: dateString })).not.toThrow();
       expect(update.state.columns).toEqual(['last_updated']);
-      expect(update.values).toEqual([dateString]);
+      expect(update.state.values).toEqual([dateString]);
     });
   });
 
@@ -84,7 +84,7 @@ describe('Update', () => {
     it('should throw QueryError if table name is invalid', () => {
       update.state.table = ''; // Invalid table name
       update.state.columns = ['name'];
-      update.values = ['John'];
+      update.state.values = ['John'];
       update.state.condition = new Condition(update);
 
       expect(() => update.build()).toThrow(QueryError);
@@ -93,7 +93,7 @@ describe('Update', () => {
 
     it('should throw QueryError if there are no columns to update', () => {
       update.table('users');
-      update.values = ['John'];
+      update.state.values = ['John'];
       update.state.condition = new Condition(update);
 
       expect(() => update.build()).toThrow(QueryError);
@@ -112,7 +112,7 @@ describe('Update', () => {
     it('should throw QueryError if there is no condition specified', () => {
       update.table('users');
       update.state.columns = ['name'];
-      update.values = ['John'];
+      update.state.values = ['John'];
 
       expect(() => update.build()).toThrow(QueryError);
       expect(() => update.build()).toThrow('UPDATE condition is required');
@@ -125,7 +125,7 @@ describe('Update', () => {
         .where((col: any) => col('id').equal(18));
 
       const sql = update.build();
-      expect(sql).toBe('UPDATE users SET name = ? WHERE id = ?;');
+      expect(sql).toBe('UPDATE `users` SET `name` = ? WHERE `id` = ?;');
     });
 
     it('should correctly build an SQL statement with multiple columns', () => {
@@ -136,7 +136,7 @@ describe('Update', () => {
 
       const sql = update.build();
       expect(sql).toBe(
-        'UPDATE users SET name = ?, age = ?, status = ? WHERE id = ?;'
+        'UPDATE `users` SET `name` = ?, `age` = ?, `status` = ? WHERE `id` = ?;'
       );
     });
 
@@ -148,10 +148,168 @@ describe('Update', () => {
         .build();
 
       expect(sql).toBe(
-        'UPDATE users SET name = NULL, age = NULL, status = ? WHERE id = ?;'
+        'UPDATE `users` SET `name` = NULL, `age` = NULL, `status` = ? WHERE `id` = ?;'
       );
 
-      expect(update.values).toEqual(['banned', 1]);
+      expect(update.get.values()).toEqual(['banned', 1]);
+    });
+
+    it('should number placeholders for PostgreSQL', () => {
+      update.connection.driver = { id: Symbol('PostgreSQL') };
+
+      const sql = update
+        .table('users')
+        .set({ name: 'John', age: null, status: 'active' })
+        .where((col) => col('id').equal(1))
+        .build();
+
+      expect(sql).toBe(
+        'UPDATE "users" SET "name" = $1, "age" = NULL, "status" = $2 WHERE "id" = $3;'
+      );
+    });
+  });
+
+  describe('value types', () => {
+    const row = {
+      active: true,
+      seen_at: new Date('2024-01-02T03:04:05.000Z'),
+      views: BigInt(10),
+      avatar: Buffer.from('avatar'),
+      settings: { theme: 'dark' },
+      tags: ['a'],
+    };
+
+    it('should serialize values for MySQL', () => {
+      expect(
+        update
+          .table('users')
+          .set(row)
+          .where((col) => col('verified').equal(false))
+          .build()
+      ).toBe(
+        'UPDATE `users` SET `active` = ?, `seen_at` = ?, `views` = ?, `avatar` = ?, `settings` = ?, `tags` = ? WHERE `verified` = ?;'
+      );
+
+      expect(update.get.values()).toEqual([
+        1,
+        row.seen_at,
+        row.views,
+        row.avatar,
+        '{"theme":"dark"}',
+        '["a"]',
+        0,
+      ]);
+
+      // The values are left unchanged
+      expect(update.state.values).toEqual(Object.values(row));
+    });
+
+    it('should serialize values for PostgreSQL', () => {
+      update.connection.driver = { id: Symbol('PostgreSQL') };
+      update
+        .table('users')
+        .set(row)
+        .where((col) => col('id').equal(1))
+        .build();
+
+      expect(update.get.values()).toEqual([
+        true,
+        row.seen_at,
+        row.views,
+        row.avatar,
+        { theme: 'dark' },
+        '["a"]',
+        1,
+      ]);
+    });
+
+    it('should serialize values for SQLite', () => {
+      update.connection.driver = { id: Symbol('SQLite') };
+      update
+        .table('users')
+        .set(row)
+        .where((col) => col('id').equal(1))
+        .build();
+
+      expect(update.get.values()).toEqual([
+        1,
+        '2024-01-02 03:04:05',
+        row.views,
+        row.avatar,
+        '{"theme":"dark"}',
+        '["a"]',
+        1,
+      ]);
+    });
+
+    it('should throw QueryError for invalid values', () => {
+      [() => 1, Symbol('name'), new Date('invalid'), new Set()].forEach(
+        (value) => {
+          expect(() => update.set({ name: value })).toThrow(QueryError);
+        }
+      );
+    });
+  });
+
+  describe('.transform()', () => {
+    it('should transform column values before serialization', () => {
+      update
+        .table('users')
+        .transform({
+          email: (email: string) => email.toLowerCase(),
+          birthday: (date: Date) => date.toISOString().slice(0, 10),
+        })
+        .set({ email: 'John@Mail.COM', birthday: null, name: 'John' })
+        .where((col) => col('id').equal(1));
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `email` = ?, `birthday` = NULL, `name` = ? WHERE `id` = ?;'
+      );
+
+      expect(update.get.values()).toEqual(['john@mail.com', 'John', 1]);
+    });
+
+    it('should accept custom types for transformed columns', () => {
+      const money = { cents: 1250, toString: () => '12.50' };
+
+      update
+        .table('orders')
+        .transform({ price: (v: typeof money) => v.cents })
+        .set({ price: Object.create(money) })
+        .where((col) => col('id').equal(1))
+        .build();
+
+      expect(update.get.values()).toEqual([1250, 1]);
+    });
+
+    it('should throw QueryError for invalid transformers', () => {
+      expect(() => update.transform('x')).toThrow(
+        new QueryError('Invalid UPDATE transformers: x')
+      );
+
+      expect(() => update.transform({ price: 1 })).toThrow(
+        new QueryError('Invalid UPDATE transformer: price')
+      );
+    });
+
+    it('should throw QueryError for invalid transformed values', () => {
+      update
+        .table('users')
+        .transform({ name: () => Symbol('name') })
+        .set({ name: 'John' })
+        .where((col) => col('id').equal(1));
+
+      expect(() => update.build()).toThrow(
+        new QueryError('Invalid UPDATE value: Symbol(name)')
+      );
+    });
+
+    it('should copy transformers to clones', () => {
+      update.transform({ name: (v: string) => v.trim() });
+      const copy = update.clone().transform({ age: Number });
+
+      expect(Object.keys(update.state.transformers)).toEqual(['name']);
+      expect(Object.keys(copy.state.transformers)).toEqual(['name', 'age']);
     });
   });
 
@@ -161,11 +319,136 @@ describe('Update', () => {
       expect(update.state.condition).toBeInstanceOf(Condition);
     });
 
+    it('should accept a standalone condition', () => {
+      const active = condition((col) => col('status').equal('active'));
+
+      update
+        .table('users')
+        .set({ name: 'John' })
+        .where((col: any) => col('id').equal(1))
+        .and()
+        .where(active);
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `name` = ? WHERE `id` = ? AND `status` = ?;'
+      );
+      expect(update.get.values()).toEqual(['John', 1, 'active']);
+    });
+
+    it('should collect values in placeholders order', () => {
+      update
+        .table('users')
+        .where((col: any) => col('id').equal(1))
+        .set({ name: 'John' });
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `name` = ? WHERE `id` = ?;'
+      );
+      expect(update.get.values()).toEqual(['John', 1]);
+    });
+
     it('should throw QueryError if condition is not a function', () => {
       expect(() => update.where('invalid' as any)).toThrow(QueryError);
     });
   });
 
+  describe('.where() filters', () => {
+    it('should add object-style filters', () => {
+      update
+        .table('users')
+        .set({ active: 0 })
+        .where({ role: ['guest', 'trial'], last_login: { lt: '2024-01-01' } });
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE `role` IN (?, ?) AND `last_login` < ?;'
+      );
+      expect(update.get.values()).toEqual([0, 'guest', 'trial', '2024-01-01']);
+    });
+  });
+
+  describe('.andWhere() & .orWhere()', () => {
+    it('should skip the logical operator for the first condition', () => {
+      update
+        .table('users')
+        .set({ active: 0 })
+        .andWhere((col: any) => col('id').equal(1));
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE `id` = ?;'
+      );
+    });
+
+    it('should add the logical operator and group the condition', () => {
+      const banned = condition((col) => col('banned').equal(1));
+
+      update
+        .table('users')
+        .set({ active: 0 })
+        .where((col: any) => col('id').equal(1))
+        .orWhere((col: any) =>
+          col('role').equal('guest').and().col('age').lessThan(18)
+        )
+        .andWhere(banned);
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE `id` = ? OR (`role` = ? AND `age` < ?) AND `banned` = ?;'
+      );
+      expect(update.get.values()).toEqual([0, 1, 'guest', 18, 1]);
+    });
+
+    it('should group an OR condition that comes first', () => {
+      update
+        .table('users')
+        .set({ active: 0 })
+        .orWhere((col: any) => col('a').equal(1).or().col('b').equal(2))
+        .andWhere((col: any) => col('c').equal(3));
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE (`a` = ? OR `b` = ?) AND `c` = ?;'
+      );
+    });
+
+    it('should throw QueryError if condition is not a function', () => {
+      expect(() => update.andWhere('invalid')).toThrow(
+        'Invalid UPDATE condition: invalid'
+      );
+
+      expect(() => update.orWhere('invalid')).toThrow(
+        'Invalid UPDATE condition: invalid'
+      );
+    });
+  });
+
+  describe('.group()', () => {
+    it('should add groups to the WHERE clause', () => {
+      update
+        .table('users')
+        .set({ active: 0 })
+        .group((col: any) =>
+          col('role').equal('guest').or().col('role').equal('trial')
+        )
+        .andGroup((col: any) => col('age').lessThan(18))
+        .orGroup((col: any) => col('banned').equal(1));
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE (`role` = ? OR `role` = ?) AND (`age` < ?) OR (`banned` = ?);'
+      );
+    });
+
+    it('should negate a group', () => {
+      update
+        .table('users')
+        .set({ active: 0 })
+        .notGroup((col: any) =>
+          col('verified').equal(1).or().col('vip').equal(1)
+        );
+
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `active` = ? WHERE NOT (`verified` = ? OR `vip` = ?);'
+      );
+    });
+  });
+
   describe('.and()', () => {
     it('should append AND to the condition if it exists', () => {
       // Defined condition
@@ -243,7 +526,7 @@ describe('Update', () => {
           .where((col) => col('age').lessThan('18'))
           .close()
           .build()
-      ).toBe('UPDATE users SET age = ? WHERE (age < ?);');
+      ).toBe('UPDATE `users` SET `age` = ? WHERE (`age` < ?);');
     });
 
     it('should throw if the condition starts with )', () => {
@@ -259,9 +542,41 @@ describe('Update', () => {
       expect(update.state.table).toBeUndefined();
       expect(update.state.columns).toEqual([]);
       expect(update.state.condition).toBeUndefined();
+      expect(update.state.transformers).toEqual({});
 
       expect(update.values).toEqual([]);
       expect(update.query).toBeUndefined();
     });
   });
+
+  describe('.clone()', () => {
+    it('should copy the query without affecting the original', () => {
+      update
+        .table('users')
+        .set({ name: 'John' })
+        .where((col: any) => col('id').equal(1));
+
+      const copy = update.clone();
+      copy.and().where((col: any) => col('active').equal(1));
+      copy.set({ name: 'Jane', age: 30 });
+
+      expect(copy).toBeInstanceOf(Update);
+      expect(update.build()).toBe(
+        'UPDATE `users` SET `name` = ? WHERE `id` = ?;'
+      );
+      expect(update.get.values()).toEqual(['John', 1]);
+
+      expect(copy.build()).toBe(
+        'UPDATE `users` SET `name` = ?, `age` = ? WHERE `id` = ? AND `active` = ?;'
+      );
+      expect(copy.get.values()).toEqual(['Jane', 30, 1, 1]);
+    });
+
+    it('should copy queries without conditions', () => {
+      const copy = update.table('users').clone();
+
+      expect(copy.state.table).toBe('users');
+      expect(copy.state.condition).toBeUndefined();
+    });
+  });
 });
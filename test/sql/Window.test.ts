@@ -0,0 +1,226 @@
+import { QueryError } from '@megaorm/errors';
+import { ASC, DESC, expr } from '../../src';
+import {
+  CURRENT_ROW,
+  UNBOUNDED_FOLLOWING,
+  UNBOUNDED_PRECEDING,
+  Window,
+  WindowFunction,
+  denseRank,
+  following,
+  func,
+  lag,
+  lead,
+  preceding,
+  rank,
+  rowNumber,
+} from '../../src';
+
+const mock = {
+  connection: () => {
+    return {
+      id: Symbol('MegaPoolConnection'),
+      driver: { id: Symbol('MySQL') },
+      query: jest.fn(() => Promise.resolve()),
+    } as any;
+  },
+  pg: () => {
+    return { id: Symbol('PostgreSQL') };
+  },
+};
+
+describe('preceding & following', () => {
+  it('should create frame bounds', () => {
+    expect(preceding(3).description).toBe('3 PRECEDING');
+    expect(following(0).description).toBe('0 FOLLOWING');
+  });
+
+  it('should throw for invalid rows', () => {
+    expect(() => preceding(-1)).toThrow(
+      new QueryError('Invalid PRECEDING rows: -1')
+    );
+
+    expect(() => following(1.5)).toThrow(
+      new QueryError('Invalid FOLLOWING rows: 1.5')
+    );
+  });
+});
+
+describe('Window', () => {
+  let window: Window;
+  let con: any;
+
+  beforeEach(() => {
+    window = new Window();
+    con = mock.connection();
+  });
+
+  describe('partitionBy', () => {
+    it('should add PARTITION BY columns', () => {
+      window.partitionBy('user_id', 'year');
+      expect(window.build(con)).toBe('PARTITION BY `user_id`, `year`');
+    });
+
+    it('should throw for invalid columns', () => {
+      expect(() => window.partitionBy('')).toThrow(
+        new QueryError('Invalid PARTITION BY column: ')
+      );
+    });
+  });
+
+  describe('orderBy', () => {
+    it('should add ORDER BY columns', () => {
+      window.orderBy('score', DESC).orderBy('id');
+      expect(window.build(con)).toBe('ORDER BY `score` DESC, `id` ASC');
+    });
+
+    it('should throw for invalid columns and types', () => {
+      expect(() => window.orderBy(123 as any)).toThrow(
+        new QueryError('Invalid ORDER BY column: 123')
+      );
+
+      expect(() => window.orderBy('id', 'DESC' as any)).toThrow(
+        new QueryError('Invalid ORDER BY type: DESC')
+      );
+    });
+  });
+
+  describe('rows & range', () => {
+    it('should add a frame clause', () => {
+      window.orderBy('id').rows(UNBOUNDED_PRECEDING, CURRENT_ROW);
+      expect(window.build(con)).toBe(
+        'ORDER BY `id` ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW'
+      );
+
+      window.range(preceding(2), UNBOUNDED_FOLLOWING);
+      expect(window.build(con)).toBe(
+        'ORDER BY `id` ASC RANGE BETWEEN 2 PRECEDING AND UNBOUNDED FOLLOWING'
+      );
+
+      window.rows(preceding(1));
+      expect(window.build(con)).toBe('ORDER BY `id` ASC ROWS 1 PRECEDING');
+    });
+
+    it('should throw for invalid bounds', () => {
+      expect(() => window.rows(Symbol('1 ROW'))).toThrow(
+        new QueryError('Invalid frame start: Symbol(1 ROW)')
+      );
+
+      expect(() => window.range(CURRENT_ROW, 'x' as any)).toThrow(
+        new QueryError('Invalid frame end: x')
+      );
+    });
+  });
+
+  it('should build an empty window', () => {
+    expect(window.build(con)).toBe('');
+  });
+
+  describe('clone', () => {
+    it('should copy the window without affecting the original', () => {
+      window.partitionBy('user_id').orderBy('id').rows(preceding(1));
+
+      const copy = window.clone();
+      copy.partitionBy('type').orderBy('created_at', DESC).rows(CURRENT_ROW);
+
+      expect(window.build(con)).toBe(
+        'PARTITION BY `user_id` ORDER BY `id` ASC ROWS 1 PRECEDING'
+      );
+      expect(copy.build(con)).toBe(
+        'PARTITION BY `user_id`, `type` ORDER BY `id` ASC, `created_at` DESC ROWS CURRENT ROW'
+      );
+    });
+  });
+});
+
+describe('WindowFunction', () => {
+  let con: any;
+
+  beforeEach(() => {
+    con = mock.connection();
+  });
+
+  it('should build a window function with a window specification', () => {
+    const fn = rowNumber()
+      .over((w) => w.partitionBy('user_id').orderBy('created_at', DESC))
+      .as('rn');
+
+    expect(fn).toBeInstanceOf(WindowFunction);
+    expect(fn.build(con)).toBe(
+      'ROW_NUMBER() OVER (PARTITION BY `user_id` ORDER BY `created_at` DESC) AS `rn`'
+    );
+
+    expect(fn.build(con, false)).toBe(
+      'ROW_NUMBER() OVER (PARTITION BY `user_id` ORDER BY `created_at` DESC)'
+    );
+  });
+
+  it('should reference a named window', () => {
+    con.driver = mock.pg();
+
+    expect(rank().over('w').build(con)).toBe('RANK() OVER "w"');
+    expect(denseRank().over('w').as('pos').build(con)).toBe(
+      'DENSE_RANK() OVER "w" AS "pos"'
+    );
+  });
+
+  it('should build functions with arguments', () => {
+    expect(
+      lag('price')
+        .over((w) => w.orderBy('day'))
+        .build(con)
+    ).toBe('LAG(`price`, 1) OVER (ORDER BY `day` ASC)');
+
+    expect(
+      lead('price', 2)
+        .over((w) => w.orderBy('day'))
+        .build(con)
+    ).toBe('LEAD(`price`, 2) OVER (ORDER BY `day` ASC)');
+
+    expect(
+      func('sum', 'amount')
+        .over((w) =>
+          w.orderBy('day', ASC).rows(UNBOUNDED_PRECEDING, CURRENT_ROW)
+        )
+        .as('total')
+        .build(con)
+    ).toBe(
+      'SUM(`amount`) OVER (ORDER BY `day` ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS `total`'
+    );
+
+    expect(func('NTILE', 4).over('w').build(con)).toBe('NTILE(4) OVER `w`');
+    expect(func('COUNT', expr('*')).over('w').build(con)).toBe(
+      'COUNT(*) OVER `w`'
+    );
+  });
+
+  it('should throw for invalid inputs', () => {
+    expect(() => func('SUM(x)')).toThrow(
+      new QueryError('Invalid window function: SUM(x)')
+    );
+
+    expect(() => func('SUM', null)).toThrow(
+      new QueryError('Invalid window function argument: null')
+    );
+
+    expect(() => lag('price', -1)).toThrow(
+      new QueryError('Invalid LAG offset: -1')
+    );
+
+    expect(() => lead('price', 'x' as any)).toThrow(
+      new QueryError('Invalid LEAD offset: x')
+    );
+
+    expect(() => rank().over(1 as any)).toThrow(
+      new QueryError('Invalid OVER window: 1')
+    );
+
+    expect(() => rank().as('')).toThrow(
+      new QueryError('Invalid window function alias: ')
+    );
+
+    expect(() => rank().build(con)).toThrow(
+      new QueryError('Missing OVER clause: RANK()')
+    );
+  });
+});